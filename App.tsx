@@ -1,25 +1,70 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { TransactionTable } from './components/TransactionTable';
 import { AggregationView } from './components/AggregationView';
 import { FilterBar } from './components/FilterBar';
 import { HistorySidebar } from './components/HistorySidebar';
-import { analyzePdfStatement } from './services/geminiService';
-import { processExcelFile } from './utils/excelParser';
-import { StatementData, AnalysisStatus, FilterCriteria, SavedStatementSummary } from './types';
+import { ReconciliationSummary } from './components/ReconciliationSummary';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { SheetSelector } from './components/SheetSelector';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { PageReportPanel } from './components/PageReportPanel';
+import { PdfPasswordPrompt } from './components/PdfPasswordPrompt';
+import { ReviewQueue } from './components/ReviewQueue';
+import { SourcePageViewer } from './components/SourcePageViewer';
+import { analyzePdfStatement, retryPdfPages, resolvePdfPassword, PdfPasswordRequiredError } from './services/geminiService';
+import { HeaderNotFoundError, SheetSelectionRequiredError, ExcelImportOptions, SheetSummary } from './utils/excelParser';
+import { processExcelFile } from './utils/excelImport';
+import { processCsvFile } from './utils/csvParser';
+import { HeaderDetection } from './utils/bankProfiles';
+import { saveMappingTemplate } from './utils/mappingTemplates';
+import { StatementData, Transaction, AnalysisStatus, FilterCriteria, SavedStatementSummary, UploadQueueItem } from './types';
 import { exportRawData, exportExcelBackup } from './utils/exportUtils';
 import { saveStatementToStorage, getStoredStatementsList, getStatementById, deleteStatementById } from './utils/storage.ts';
 import { generateSQL, parseSQL } from './utils/sqlHelpers';
+import { reconcileStatement } from './utils/reconciliation';
+import { ProviderSettings, getProviderSettings, saveProviderSettings, describeSettingsSnapshot } from './utils/providerSettings';
+import { AnalysisControl, createAnalysisControl, isAbortError } from './utils/analysisControl';
+import { pdfPasswordKey, rememberPdfPassword } from './utils/pdfPasswords';
+import { STRUCTURED_EXTENSIONS, readFileAsBase64, processStructuredFile, importStatementFile } from './utils/statementImport';
+import { mergeStatements } from './utils/statementMerge';
+import { getTransactionIsoDate } from './utils/dateUtils';
+import { sumByCurrency, DEFAULT_CURRENCY, getCurrencyLocale } from './utils/currency';
+import { needsReview } from './utils/confidence';
+import { describeUsage } from './utils/aiUsage';
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
   const [data, setData] = useState<StatementData | null>(null);
   const [errorMsg, setErrorMsg] = useState<string>('');
-  const [activeTab, setActiveTab] = useState<'DETAILS' | 'GROUPED'>('DETAILS');
+  const [activeTab, setActiveTab] = useState<'DETAILS' | 'GROUPED' | 'REVIEW'>('DETAILS');
   const [progress, setProgress] = useState<number>(0);
+  // Bước đang chạy do worker gửi về (VD: "Đang quét sheet ...")
+  const [progressMessage, setProgressMessage] = useState<string>('');
   const [progressDetails, setProgressDetails] = useState<{current: number, total: number}>({current: 0, total: 0});
   const [currentFileName, setCurrentFileName] = useState<string>('');
 
+  // Wizard gán cột khi không nhận diện được tiêu đề Excel
+  const [mappingRequest, setMappingRequest] = useState<{ file: File; preview: any[][]; sheetName: string } | null>(null);
+  // Chọn sheet khi workbook có nhiều sheet sao kê
+  const [sheetRequest, setSheetRequest] = useState<{ file: File; sheets: SheetSummary[] } | null>(null);
+  // Provider AI dùng cho các trang PDF không đọc được bằng lớp văn bản
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => getProviderSettings());
+  // Nội dung PDF gốc (và mật khẩu nếu có) của phiên hiện tại, dùng để chạy lại các trang lỗi. Chỉ giữ trong bộ nhớ.
+  const [pdfSource, setPdfSource] = useState<{ content: string; password: string } | null>(null);
+  // Hỏi mật khẩu khi PDF được mã hóa
+  const [passwordRequest, setPasswordRequest] = useState<{ file: File; content: string; isIncorrect: boolean } | null>(null);
+  // Giao dịch đang xem trong trang PDF gốc
+  const [sourceTransaction, setSourceTransaction] = useState<Transaction | null>(null);
+  const [isRetryingPages, setIsRetryingPages] = useState(false);
+  const [retryProgress, setRetryProgress] = useState(0);
+  // Lượt phân tích PDF đang chạy (hủy / tạm dừng). Reset bỏ luôn kết quả, còn Hủy giữ các trang đã xong.
+  const analysisControlRef = useRef<AnalysisControl | null>(null);
+  const [canControlAnalysis, setCanControlAnalysis] = useState(false);
+  const [isAnalysisPaused, setIsAnalysisPaused] = useState(false);
+  // Hàng đợi khi tải lên nhiều file / cả thư mục
+  const [uploadQueue, setUploadQueue] = useState<UploadQueueItem[]>([]);
+
   // History Sidebar State
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [historyItems, setHistoryItems] = useState<SavedStatementSummary[]>([]);
@@ -39,20 +84,6 @@ const App: React.FC = () => {
     setHistoryItems(getStoredStatementsList());
   }, []);
 
-  // Helper function to read file as Base64 (for PDF)
-  const readFileAsBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const base64String = reader.result as string;
-        const base64Content = base64String.split(',')[1];
-        resolve(base64Content);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
   // Helper for SQL Text read
   const readFileAsText = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -63,42 +94,181 @@ const App: React.FC = () => {
     });
   };
 
+  const runSpreadsheetImport = async (file: File, options?: ExcelImportOptions) => {
+    setStatus(AnalysisStatus.ANALYZING);
+    try {
+      // CSV dùng chung logic nhận diện cột với Excel; Excel tự phát hiện Backup hoặc Raw Statement bên trong
+      const parser = file.name.toLowerCase().endsWith('.csv') ? processCsvFile : processExcelFile;
+      const result = await parser(file, (percent, message?: string) => {
+        setProgress(percent);
+        if (message) setProgressMessage(message);
+      }, options);
+
+      // Nếu parser lấy được filename từ backup metadata thì dùng, không thì dùng tên file upload
+      setData({ ...result, fileName: result.fileName && result.fileName !== 'Restored_Backup.xlsx' ? result.fileName : file.name });
+      setStatus(AnalysisStatus.SUCCESS);
+    } catch (e) {
+      if (e instanceof HeaderNotFoundError) {
+        // Chuyển sang bước gán cột thủ công thay vì báo lỗi
+        setMappingRequest({ file, preview: e.preview, sheetName: e.sheetName });
+        setStatus(AnalysisStatus.IDLE);
+        return;
+      }
+      if (e instanceof SheetSelectionRequiredError) {
+        setSheetRequest({ file, sheets: e.sheets });
+        setStatus(AnalysisStatus.IDLE);
+        return;
+      }
+      throw e;
+    }
+  };
+
+  const handleSheetSelection = async (sheetNames: string[]) => {
+    if (!sheetRequest) return;
+    const { file } = sheetRequest;
+
+    setSheetRequest(null);
+    setProgress(0);
+    setProgressMessage('');
+    try {
+      await runSpreadsheetImport(file, { sheetNames });
+    } catch (e: any) {
+      console.error(e);
+      setStatus(AnalysisStatus.ERROR);
+      setErrorMsg(e.message || 'Lỗi không xác định.');
+    }
+  };
+
+  const handleMappingConfirm = async (mapping: HeaderDetection, headerRow: any[], templateName: string | null) => {
+    if (!mappingRequest) return;
+    const { file } = mappingRequest;
+
+    if (templateName) {
+      saveMappingTemplate(headerRow, {
+        name: templateName,
+        colMap: mapping.colMap,
+        dateFormat: mapping.dateFormat || 'DMY',
+        sign: mapping.sign
+      });
+    }
+
+    setMappingRequest(null);
+    setProgress(0);
+    setProgressMessage('');
+    try {
+      await runSpreadsheetImport(file, { mapping, mappingSheet: mappingRequest.sheetName });
+    } catch (e: any) {
+      console.error(e);
+      setStatus(AnalysisStatus.ERROR);
+      setErrorMsg(e.message || 'Lỗi không xác định.');
+    }
+  };
+
+  /**
+   * Phân tích PDF; file mã hóa thì thử mật khẩu đã nhớ trong phiên, không được thì hỏi người dùng
+   */
+  const runPdfAnalysis = async (file: File, base64Content: string, enteredPassword?: string, remember = false) => {
+    setStatus(AnalysisStatus.ANALYZING);
+    let password: string;
+    try {
+      password = await resolvePdfPassword(base64Content, enteredPassword);
+    } catch (e) {
+      if (e instanceof PdfPasswordRequiredError) {
+        setPasswordRequest({ file, content: base64Content, isIncorrect: e.isIncorrect });
+        setStatus(AnalysisStatus.IDLE);
+        return;
+      }
+      throw e;
+    }
+    setPdfSource({ content: base64Content, password });
+
+    const control = createAnalysisControl();
+    analysisControlRef.current = control;
+    setCanControlAnalysis(true);
+    setIsAnalysisPaused(false);
+
+    try {
+      // Call AI Service for PDF
+      const result = await analyzePdfStatement(base64Content, (percent, current, total) => {
+        setProgress(percent);
+        if (current !== undefined && total !== undefined) {
+           setProgressDetails({current, total});
+        }
+      }, providerSettings, undefined, control, password);
+
+      // Người dùng đã reset trong lúc chạy: bỏ kết quả
+      if (analysisControlRef.current !== control) return;
+
+      if (remember && password) {
+        rememberPdfPassword(pdfPasswordKey(result.bankName, result.accountNumber), password);
+      }
+
+      // Cập nhật filename nếu AI phát hiện được file gốc (tuỳ chọn), ở đây giữ nguyên file upload
+      setData({ ...result, fileName: file.name });
+      setStatus(AnalysisStatus.SUCCESS);
+    } catch (e) {
+      if (analysisControlRef.current !== control) return;
+      if (isAbortError(e)) {
+        // Hủy trước khi có trang nào xong: quay về màn hình tải lên
+        setStatus(AnalysisStatus.IDLE);
+        setProgress(0);
+        setProgressMessage('');
+        setProgressDetails({current: 0, total: 0});
+        return;
+      }
+      throw e;
+    } finally {
+      if (analysisControlRef.current === control) {
+        analysisControlRef.current = null;
+        setCanControlAnalysis(false);
+        setIsAnalysisPaused(false);
+      }
+    }
+  };
+
+  const handlePasswordSubmit = async (password: string, remember: boolean) => {
+    if (!passwordRequest) return;
+    const { file, content } = passwordRequest;
+
+    setPasswordRequest(null);
+    setProgress(0);
+    setProgressMessage('');
+    try {
+      await runPdfAnalysis(file, content, password, remember);
+    } catch (e: any) {
+      console.error(e);
+      setStatus(AnalysisStatus.ERROR);
+      setErrorMsg(e.message || 'Lỗi không xác định.');
+    }
+  };
+
   const handleFileUpload = async (file: File) => {
+    setUploadQueue([]);
     try {
       setStatus(AnalysisStatus.READING_FILE);
       setErrorMsg('');
       setProgress(0);
+      setProgressMessage('');
       setProgressDetails({current: 0, total: 0});
       // Mặc định set theo tên file upload, sẽ được override nếu là SQL import thành công
       setCurrentFileName(file.name);
+      setPdfSource(null);
+      setSourceTransaction(null);
 
       const fileNameLower = file.name.toLowerCase();
 
       // Determine processing method based on file type
       if (fileNameLower.endsWith('.pdf')) {
         const base64Content = await readFileAsBase64(file);
-        
-        setStatus(AnalysisStatus.ANALYZING);
-        // Call AI Service for PDF
-        const result = await analyzePdfStatement(base64Content, (percent, current, total) => {
-          setProgress(percent);
-          if (current !== undefined && total !== undefined) {
-             setProgressDetails({current, total});
-          }
-        });
-
-        // Cập nhật filename nếu AI phát hiện được file gốc (tuỳ chọn), ở đây giữ nguyên file upload
-        setData({ ...result, fileName: file.name });
-        setStatus(AnalysisStatus.SUCCESS);
-      } else if (fileNameLower.endsWith('.xlsx') || fileNameLower.endsWith('.xls')) {
+        await runPdfAnalysis(file, base64Content);
+      } else if (fileNameLower.endsWith('.xlsx') || fileNameLower.endsWith('.xls') || fileNameLower.endsWith('.csv')) {
+         await runSpreadsheetImport(file);
+      } else if (STRUCTURED_EXTENSIONS.some(ext => fileNameLower.endsWith(ext))) {
+         // Các định dạng có cấu trúc chuẩn: đọc trực tiếp, không cần AI
          setStatus(AnalysisStatus.ANALYZING);
-         // Call Excel Parser (Tự động phát hiện Backup hoặc Raw Statement bên trong)
-         const result = await processExcelFile(file, (percent) => {
-           setProgress(percent);
-         });
-         
-         // Nếu parser lấy được filename từ backup metadata thì dùng, không thì dùng tên file upload
-         setData({ ...result, fileName: result.fileName && result.fileName !== 'Restored_Backup.xlsx' ? result.fileName : file.name });
+         const result = await processStructuredFile(file);
+         setProgress(100);
+         setData({ ...result, fileName: file.name });
          setStatus(AnalysisStatus.SUCCESS);
       } else if (fileNameLower.endsWith('.sql')) {
           setStatus(AnalysisStatus.ANALYZING);
@@ -132,6 +302,117 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Tải lên nhiều file: xử lý lần lượt, rồi gộp thành một sao kê (bỏ giao dịch trùng giữa các kỳ chồng nhau)
+   */
+  const handleFilesUpload = async (files: File[]) => {
+    if (files.length === 1) {
+      handleFileUpload(files[0]);
+      return;
+    }
+
+    const control = createAnalysisControl();
+    analysisControlRef.current = control;
+    setCanControlAnalysis(true);
+    setIsAnalysisPaused(false);
+    setStatus(AnalysisStatus.ANALYZING);
+    setErrorMsg('');
+    setProgress(0);
+    setProgressMessage('');
+    setProgressDetails({current: 0, total: 0});
+    setPdfSource(null);
+    setSourceTransaction(null);
+
+    const queue: UploadQueueItem[] = files.map(file => ({ name: file.name, status: 'pending', progress: 0 }));
+    const updateItem = (index: number, patch: Partial<UploadQueueItem>) => {
+      queue[index] = { ...queue[index], ...patch };
+      setUploadQueue([...queue]);
+    };
+    setUploadQueue([...queue]);
+
+    const results: StatementData[] = [];
+    for (let i = 0; i < files.length; i++) {
+      await control.waitIfPaused();
+      if (control.signal.aborted) {
+        updateItem(i, { status: 'failed', error: 'Đã hủy.' });
+        continue;
+      }
+
+      updateItem(i, { status: 'processing' });
+      try {
+        const result = await importStatementFile(files[i], (percent) => {
+          updateItem(i, { progress: percent });
+          setProgress(Math.round(((i + percent / 100) / files.length) * 100));
+        }, providerSettings, control);
+        results.push(result);
+        updateItem(i, { status: 'done', progress: 100, rowCount: result.transactions.length });
+      } catch (e: any) {
+        console.error(e);
+        const needsUser = e instanceof HeaderNotFoundError || e instanceof PdfPasswordRequiredError;
+        updateItem(i, { status: 'failed', error: `${e.message || 'Lỗi không xác định.'}${needsUser ? ' Hãy tải riêng file này.' : ''}` });
+      }
+    }
+
+    // Người dùng đã reset trong lúc chạy: bỏ kết quả
+    if (analysisControlRef.current !== control) return;
+    analysisControlRef.current = null;
+    setCanControlAnalysis(false);
+    setIsAnalysisPaused(false);
+    setProgress(100);
+
+    const failed = queue.filter(item => item.status === 'failed');
+    if (results.length === 0) {
+      setStatus(AnalysisStatus.ERROR);
+      setErrorMsg(`Không nhập được file nào: ${failed.map(f => `${f.name} (${f.error})`).join('; ')}`);
+      return;
+    }
+
+    const { data: merged, duplicatesRemoved } = mergeStatements(results);
+    setData(merged);
+    setCurrentFileName(merged.fileName || '');
+    setStatus(AnalysisStatus.SUCCESS);
+
+    const notes: string[] = [];
+    if (duplicatesRemoved > 0) notes.push(`Đã bỏ ${duplicatesRemoved} giao dịch trùng giữa các file.`);
+    if (failed.length > 0) notes.push(`Không nhập được ${failed.length} file:\n${failed.map(f => `- ${f.name}: ${f.error}`).join('\n')}`);
+    if (notes.length > 0) alert(notes.join('\n\n'));
+  };
+
+  const handleRetryPages = async (pages: number[]) => {
+    if (!data || !pdfSource || pages.length === 0) return;
+    setIsRetryingPages(true);
+    setRetryProgress(0);
+    try {
+      const merged = await retryPdfPages(pdfSource.content, data, pages, (percent) => setRetryProgress(percent), providerSettings, undefined, pdfSource.password);
+      setData(merged);
+    } catch (e: any) {
+      alert(e.message || 'Lỗi khi chạy lại trang.');
+    } finally {
+      setIsRetryingPages(false);
+    }
+  };
+
+  const handleCancelAnalysis = () => {
+    analysisControlRef.current?.cancel();
+    setIsAnalysisPaused(false);
+  };
+
+  const handleToggleAnalysisPause = () => {
+    const control = analysisControlRef.current;
+    if (!control) return;
+    if (control.isPaused()) {
+      control.resume();
+    } else {
+      control.pause();
+    }
+    setIsAnalysisPaused(control.isPaused());
+  };
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
   // Handler specific for the SQL Input
   const handleSqlInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -151,13 +432,25 @@ const App: React.FC = () => {
   };
 
   const handleReset = () => {
+    // Dừng lượt phân tích đang chạy, không chỉ xóa state
+    analysisControlRef.current?.cancel();
+    analysisControlRef.current = null;
+    setCanControlAnalysis(false);
+    setIsAnalysisPaused(false);
     setData(null);
+    setMappingRequest(null);
+    setSheetRequest(null);
+    setPasswordRequest(null);
+    setUploadQueue([]);
     setStatus(AnalysisStatus.IDLE);
     setErrorMsg('');
     setActiveTab('DETAILS');
     setProgress(0);
+    setProgressMessage('');
     setProgressDetails({current: 0, total: 0});
     setCurrentFileName('');
+    setPdfSource(null);
+    setSourceTransaction(null);
     // Reset filter
     setFilterCriteria({ keyword: '', startDate: '', endDate: '', minAmount: '', maxAmount: '', categories: [] });
   };
@@ -209,6 +502,8 @@ const App: React.FC = () => {
     const savedData = getStatementById(id);
     if (savedData) {
       setData(savedData);
+      setPdfSource(null);
+      setSourceTransaction(null);
       setCurrentFileName(savedData.fileName || 'Saved File');
       setStatus(AnalysisStatus.SUCCESS);
       setIsHistoryOpen(false);
@@ -278,6 +573,15 @@ const App: React.FC = () => {
     }
   };
 
+  // Người dùng xác nhận / sửa một dòng trong danh sách "Cần kiểm tra"
+  const handleReviewUpdate = (original: Transaction, updated: Transaction) => {
+    if (!data) return;
+    setData({
+      ...data,
+      transactions: data.transactions.map(tx => (tx === original ? updated : tx))
+    });
+  };
+
   // Advanced Filtering Logic
   const filteredTransactions = useMemo(() => {
     if (!data) return [];
@@ -304,21 +608,38 @@ const App: React.FC = () => {
          if (!tx.category || !filterCriteria.categories.includes(tx.category)) return false;
       }
 
-      // 4. Date Range
+      // 4. Date Range (so sánh ngày ISO YYYY-MM-DD; dòng không đọc được ngày bị loại khi đang lọc theo ngày)
       if (filterCriteria.startDate || filterCriteria.endDate) {
-         const parts = tx.date.split('/');
-         if (parts.length === 3) {
-            const txDateStr = `${parts[2]}-${parts[1]}-${parts[0]}`; // YYYY-MM-DD
-            
-            if (filterCriteria.startDate && txDateStr < filterCriteria.startDate) return false;
-            if (filterCriteria.endDate && txDateStr > filterCriteria.endDate) return false;
-         }
+         const txDateStr = getTransactionIsoDate(tx);
+         if (!txDateStr) return false;
+         if (filterCriteria.startDate && txDateStr < filterCriteria.startDate) return false;
+         if (filterCriteria.endDate && txDateStr > filterCriteria.endDate) return false;
       }
 
       return true;
     });
   }, [data, filterCriteria]);
 
+  // Đối chiếu số dư trên toàn bộ sao kê (không phụ thuộc bộ lọc)
+  const reconciliation = useMemo(() => {
+    if (!data) return null;
+    return reconcileStatement(data);
+  }, [data]);
+
+  // Tổng tiền vào/ra dạng rút gọn, mỗi loại tiền một dòng (sao kê gộp nhiều tài khoản khác loại tiền)
+  const renderCompactTotals = (transactions: Transaction[], sign: string, color: string) => {
+    const totals = Object.entries(sumByCurrency(transactions, data?.currency));
+    if (totals.length === 0) totals.push([data?.currency || DEFAULT_CURRENCY, 0]);
+    return totals.map(([code, total]) => (
+      <p key={code} className={`text-xl font-bold ${color}`}>
+        {sign}{new Intl.NumberFormat(getCurrencyLocale(code), { notation: "compact", compactDisplay: "short" }).format(total)}
+        {code !== DEFAULT_CURRENCY && <span className="text-sm font-normal ml-1">{code}</span>}
+      </p>
+    ));
+  };
+
+  const reviewCount = useMemo(() => (data ? data.transactions.filter(needsReview).length : 0), [data]);
+
   const uniqueCategories = useMemo(() => {
     if (!data) return [];
     const cats = new Set(data.transactions.map(t => t.category || 'Khác'));
@@ -327,6 +648,15 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 pb-12">
+      {pdfSource && sourceTransaction && (
+        <SourcePageViewer
+          pdf={pdfSource}
+          transaction={sourceTransaction}
+          currency={data?.currency}
+          onClose={() => setSourceTransaction(null)}
+        />
+      )}
+
       <HistorySidebar 
         isOpen={isHistoryOpen} 
         onClose={() => setIsHistoryOpen(false)} 
@@ -432,20 +762,54 @@ const App: React.FC = () => {
             <div className="w-full max-w-2xl text-center mb-8">
               <h2 className="text-3xl font-bold text-slate-800 mb-4">Phân tích dòng tiền của bạn</h2>
               <p className="text-slate-600 text-lg">
-                Tải lên file PDF sao kê ngân hàng hoặc Excel. Hệ thống sẽ tự động trích xuất và phân loại giao dịch.
+                Tải lên file PDF sao kê ngân hàng, Excel hoặc CSV. Hệ thống sẽ tự động trích xuất và phân loại giao dịch.
               </p>
             </div>
 
-            <FileUpload 
-              onFileUpload={handleFileUpload} 
-              isLoading={status === AnalysisStatus.READING_FILE || status === AnalysisStatus.ANALYZING} 
-              progress={progress}
-              processedPages={progressDetails.current}
-              totalPages={progressDetails.total}
-            />
+            {mappingRequest ? (
+              <ColumnMappingWizard
+                fileName={mappingRequest.file.name}
+                sheetName={mappingRequest.sheetName}
+                preview={mappingRequest.preview}
+                onConfirm={handleMappingConfirm}
+                onCancel={handleReset}
+              />
+            ) : passwordRequest ? (
+              <PdfPasswordPrompt
+                fileName={passwordRequest.file.name}
+                isIncorrect={passwordRequest.isIncorrect}
+                onSubmit={handlePasswordSubmit}
+                onCancel={handleReset}
+              />
+            ) : sheetRequest ? (
+              <SheetSelector
+                fileName={sheetRequest.file.name}
+                sheets={sheetRequest.sheets}
+                onConfirm={handleSheetSelection}
+                onCancel={handleReset}
+              />
+            ) : (
+              <FileUpload 
+                onFileUpload={handleFileUpload} 
+                onFilesUpload={handleFilesUpload}
+                queue={uploadQueue}
+                isLoading={status === AnalysisStatus.READING_FILE || status === AnalysisStatus.ANALYZING} 
+                progress={progress}
+                progressMessage={progressMessage}
+                processedPages={progressDetails.current}
+                totalPages={progressDetails.total}
+                isPaused={isAnalysisPaused}
+                onCancel={canControlAnalysis ? handleCancelAnalysis : undefined}
+                onTogglePause={canControlAnalysis ? handleToggleAnalysisPause : undefined}
+              />
+            )}
+
+            {status === AnalysisStatus.IDLE && !mappingRequest && !sheetRequest && !passwordRequest && (
+              <ProviderSettingsPanel settings={providerSettings} onChange={handleProviderSettingsChange} />
+            )}
 
             {/* Quick Access Restore Buttons */}
-            {status === AnalysisStatus.IDLE && (
+            {status === AnalysisStatus.IDLE && !mappingRequest && !sheetRequest && (
                <div className="mt-8 flex flex-col items-center w-full max-w-2xl animate-fade-in">
                   <div className="relative flex py-5 items-center w-full">
                     <div className="flex-grow border-t border-slate-200"></div>
@@ -506,7 +870,7 @@ const App: React.FC = () => {
             )}
             
             {/* Quick Access History if exists */}
-            {historyItems.length > 0 && status === AnalysisStatus.IDLE && (
+            {historyItems.length > 0 && status === AnalysisStatus.IDLE && !mappingRequest && !sheetRequest && (
               <div className="mt-12 w-full max-w-xl">
                 <h3 className="text-sm font-semibold text-slate-500 uppercase mb-3 text-center">Mở lại gần đây</h3>
                 <div className="grid grid-cols-1 gap-3">
@@ -543,9 +907,17 @@ const App: React.FC = () => {
                   </h2>
                   <p className="text-slate-500 mt-1">
                     Chủ tài khoản: <span className="font-semibold text-slate-700">{data.accountHolder || 'Chưa xác định'}</span> 
+                    {data.accountNumber && <span className="mx-2">•</span>}
+                    {data.accountNumber && <span>STK {data.accountNumber}</span>}
                     {data.period && <span className="mx-2">•</span>}
                     {data.period && <span>{data.period}</span>}
                   </p>
+                  {data.extractionSettings && (
+                    <p className="text-xs text-slate-400 mt-1">Trích xuất: {describeSettingsSnapshot(data.extractionSettings)}</p>
+                  )}
+                  {data.usage && data.usage.length > 0 && (
+                    <p className="text-xs text-slate-400 mt-1">Chi phí AI: {describeUsage(data.usage)}</p>
+                  )}
                 </div>
                 <div className="flex items-center space-x-4">
                   <div className="text-right">
@@ -555,23 +927,25 @@ const App: React.FC = () => {
                   <div className="w-px h-10 bg-slate-200"></div>
                   <div className="text-right">
                     <p className="text-xs text-slate-500 uppercase font-semibold">Tiền vào</p>
-                    <p className="text-xl font-bold text-green-600">
-                      +{new Intl.NumberFormat('vi-VN', { notation: "compact", compactDisplay: "short" }).format(
-                        filteredTransactions.filter(t => t.type === 'CREDIT').reduce((sum, t) => sum + t.amount, 0)
-                      )}
-                    </p>
+                    {renderCompactTotals(filteredTransactions.filter(t => t.type === 'CREDIT'), '+', 'text-green-600')}
                   </div>
                   <div className="w-px h-10 bg-slate-200"></div>
                   <div className="text-right">
                     <p className="text-xs text-slate-500 uppercase font-semibold">Tiền ra</p>
-                    <p className="text-xl font-bold text-red-600">
-                      -{new Intl.NumberFormat('vi-VN', { notation: "compact", compactDisplay: "short" }).format(
-                        filteredTransactions.filter(t => t.type === 'DEBIT').reduce((sum, t) => sum + t.amount, 0)
-                      )}
-                    </p>
+                    {renderCompactTotals(filteredTransactions.filter(t => t.type === 'DEBIT'), '-', 'text-red-600')}
                   </div>
                 </div>
               </div>
+              {reconciliation && <ReconciliationSummary result={reconciliation} currency={data.currency} />}
+              {data.pageReports && data.pageReports.length > 0 && (
+                <PageReportPanel
+                  reports={data.pageReports}
+                  canRetry={!!pdfSource && !data.pageReports.some(r => r.file)}
+                  isRetrying={isRetryingPages}
+                  retryProgress={retryProgress}
+                  onRetry={handleRetryPages}
+                />
+              )}
             </div>
             
             {/* Filter Bar */}
@@ -610,18 +984,42 @@ const App: React.FC = () => {
                   </svg>
                   Phân tích & Gộp nhóm
                 </button>
+                <button
+                  onClick={() => setActiveTab('REVIEW')}
+                  className={`${
+                    activeTab === 'REVIEW'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'
+                  } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center`}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                  </svg>
+                  Cần kiểm tra
+                  {reviewCount > 0 && (
+                    <span className="ml-2 px-1.5 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">{reviewCount}</span>
+                  )}
+                </button>
               </nav>
             </div>
 
             {/* Content */}
             <div className="min-h-[400px]">
-              {activeTab === 'DETAILS' ? (
+              {activeTab === 'DETAILS' && (
                 <TransactionTable 
                   transactions={filteredTransactions} 
+                  currency={data.currency}
                   onCategoryChange={handleCategoryUpdate}
+                  balanceIssues={reconciliation?.brokenRows}
+                  onRowClick={pdfSource ? setSourceTransaction : undefined}
+                  selectedTransaction={sourceTransaction}
                 />
-              ) : (
-                <AggregationView transactions={filteredTransactions} />
+              )}
+              {activeTab === 'GROUPED' && (
+                <AggregationView transactions={filteredTransactions} currency={data.currency} />
+              )}
+              {activeTab === 'REVIEW' && (
+                <ReviewQueue transactions={data.transactions} currency={data.currency} onUpdate={handleReviewUpdate} />
               )}
             </div>
           </div>
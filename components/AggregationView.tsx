@@ -2,31 +2,63 @@ import React, { useMemo, useState, useEffect } from 'react';
 import { Transaction, GroupByOption, GroupedData } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Cell } from 'recharts';
 import { exportGroupedData } from '../utils/exportUtils';
+import { getTransactionIsoDate, formatTransactionDate } from '../utils/dateUtils';
+import { DEFAULT_CURRENCY, formatAmount, formatMoney, getTransactionCurrency } from '../utils/currency';
+import { getFxRates, saveFxRates, convertAmount, FxRateTable } from '../utils/fxRates';
+import { FxRateSettings } from './FxRateSettings';
 
 interface AggregationViewProps {
   transactions: Transaction[];
+  currency?: string; // Loại tiền của sao kê (giao dịch không tự ghi loại tiền)
 }
 
-export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }) => {
+export const AggregationView: React.FC<AggregationViewProps> = ({ transactions, currency }) => {
   const [groupBy, setGroupBy] = useState<GroupByOption>(GroupByOption.PARTNER_NAME);
   const [filterType, setFilterType] = useState<'ALL' | 'CREDIT' | 'DEBIT'>('ALL');
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [baseCurrency, setBaseCurrency] = useState<string>(currency || DEFAULT_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRateTable>(() => getFxRates());
+  const [showFxSettings, setShowFxSettings] = useState(false);
+
+  const handleFxRatesChange = (rates: FxRateTable) => {
+    setFxRates(rates);
+    saveFxRates(rates);
+  };
+
+  const statementCurrencies = useMemo(
+    () => Array.from(new Set(transactions.map(tx => getTransactionCurrency(tx, currency)))).sort(),
+    [transactions, currency]
+  );
+  const baseCurrencyOptions = Array.from(new Set([DEFAULT_CURRENCY, ...statementCurrencies, ...Object.keys(fxRates)])).sort();
 
   useEffect(() => {
     setExpandedGroups(new Set());
   }, [groupBy, filterType]);
 
-  const groupedData = useMemo(() => {
+  // Mở sao kê khác thì báo cáo theo loại tiền của sao kê đó
+  useEffect(() => {
+    setBaseCurrency(currency || DEFAULT_CURRENCY);
+  }, [currency]);
+
+  const groupedResult = useMemo(() => {
     // 1. Filter first
     const filtered = transactions.filter(t => {
       if (filterType === 'ALL') return true;
       return t.type === filterType;
     });
 
-    // 2. Group
+    // 2. Group (quy đổi về loại tiền báo cáo; thiếu tỷ giá thì bỏ ra và cảnh báo)
     const groups: Record<string, GroupedData> = {};
+    const skipped: Record<string, number> = {};
 
     filtered.forEach(tx => {
+      const txCurrency = getTransactionCurrency(tx, currency);
+      const amount = convertAmount(tx.amount, txCurrency, baseCurrency, fxRates);
+      if (amount === null) {
+        skipped[txCurrency] = (skipped[txCurrency] || 0) + 1;
+        return;
+      }
+
       let key = '';
       switch (groupBy) {
         case GroupByOption.PARTNER_NAME:
@@ -36,7 +68,7 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
           key = tx.partner_account || 'Không xác định';
           break;
         case GroupByOption.DATE:
-          key = tx.date;
+          key = getTransactionIsoDate(tx) || 'Ngày không hợp lệ';
           break;
         case GroupByOption.TRANSACTION_TYPE:
           key = tx.type === 'CREDIT' ? 'Tiền vào' : 'Tiền ra';
@@ -58,11 +90,11 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
         };
       }
 
-      groups[key].totalAmount += tx.amount;
+      groups[key].totalAmount += amount;
       if (tx.type === 'CREDIT') {
-        groups[key].totalCredit += tx.amount;
+        groups[key].totalCredit += amount;
       } else {
-        groups[key].totalDebit += tx.amount;
+        groups[key].totalDebit += amount;
       }
       
       groups[key].count += 1;
@@ -70,10 +102,15 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
     });
 
     // 3. Convert to array and calculate average
-    return Object.values(groups)
+    const sorted = Object.values(groups)
       .map(g => ({ ...g, averageAmount: g.totalAmount / g.count }))
-      .sort((a, b) => b.totalAmount - a.totalAmount); // Sort by total volume descending
-  }, [transactions, groupBy, filterType]);
+      // Nhóm theo ngày thì xếp theo thời gian, còn lại theo tổng giá trị giảm dần
+      .sort((a, b) => groupBy === GroupByOption.DATE ? a.key.localeCompare(b.key) : b.totalAmount - a.totalAmount);
+    return { groups: sorted, skipped };
+  }, [transactions, groupBy, filterType, currency, baseCurrency, fxRates]);
+
+  const groupedData = groupedResult.groups;
+  const missingCurrencies = Object.keys(groupedResult.skipped);
 
   // Calculate Totals for the Footer
   const totalStats = useMemo(() => {
@@ -104,7 +141,7 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
     }
   };
 
-  const formatCurrency = (val: number) => new Intl.NumberFormat('vi-VN').format(val);
+  const formatCurrency = (val: number) => formatAmount(val, baseCurrency);
 
   const toggleExpand = (key: string) => {
     const newExpanded = new Set(expandedGroups);
@@ -161,9 +198,35 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
               </button>
             ))}
           </div>
+
+          <label className="text-sm font-medium text-slate-700">Quy đổi sang:</label>
+          <select
+            value={baseCurrency}
+            onChange={(e) => setBaseCurrency(e.target.value)}
+            className="rounded-md border border-slate-300 py-2 pl-3 pr-8 text-sm focus:border-blue-500 focus:outline-none bg-slate-50"
+          >
+            {baseCurrencyOptions.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+          <button
+            onClick={() => setShowFxSettings(!showFxSettings)}
+            className="px-3 py-2 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md transition-colors"
+          >
+            {showFxSettings ? 'Ẩn tỷ giá' : 'Tỷ giá'}
+          </button>
         </div>
       </div>
 
+      {missingCurrencies.length > 0 && (
+        <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+          Chưa có tỷ giá {missingCurrencies.join(', ')} sang {baseCurrency}: {missingCurrencies.reduce((sum, c) => sum + groupedResult.skipped[c], 0)} giao dịch không được tính vào báo cáo.{' '}
+          <button onClick={() => setShowFxSettings(true)} className="underline font-medium">Nhập tỷ giá</button>
+        </div>
+      )}
+
+      {showFxSettings && (
+        <FxRateSettings rates={fxRates} onChange={handleFxRatesChange} missingCurrencies={missingCurrencies} />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Chart */}
         <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
@@ -175,7 +238,7 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
                 <XAxis type="number" hide />
                 <YAxis dataKey="name" type="category" width={100} tick={{fontSize: 12}} />
                 <RechartsTooltip 
-                  formatter={(value: number) => new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value)}
+                  formatter={(value: number) => formatMoney(value, baseCurrency)}
                   labelFormatter={(label, payload) => {
                     if (payload && payload.length > 0 && payload[0]?.payload?.fullKey) {
                       return `Đối tượng: ${payload[0].payload.fullKey}`;
@@ -203,7 +266,7 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
            <div className="bg-slate-50 p-4 rounded-lg">
              <span className="text-sm text-slate-600 block">Nhóm có hoạt động lớn nhất</span>
              <span className="text-2xl font-bold text-slate-900">
-               {groupedData.length > 0 ? formatCurrency(groupedData[0].totalAmount) : 0} VND
+               {groupedData.length > 0 ? formatCurrency(groupedData[0].totalAmount) : 0} {baseCurrency}
              </span>
              <span className="text-xs text-slate-600 block mt-1 truncate">
                {groupedData.length > 0 ? groupedData[0].key : '-'}
@@ -229,7 +292,7 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
              </button>
              
              <button
-                onClick={() => exportGroupedData(groupedData, getGroupByLabel())}
+                onClick={() => exportGroupedData(groupedData, getGroupByLabel(), baseCurrency)}
                 className="px-3 py-1.5 text-xs font-medium text-green-700 bg-green-50 hover:bg-green-100 rounded border border-green-200 transition-colors flex items-center gap-1"
              >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -248,7 +311,7 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
                 <th className="px-6 py-3 text-right font-medium text-slate-700">Số GD</th>
                 <th className="px-6 py-3 text-right font-medium text-green-700 bg-green-50">Tiền vào (+)</th>
                 <th className="px-6 py-3 text-right font-medium text-red-700 bg-red-50">Tiền ra (-)</th>
-                <th className="px-6 py-3 text-right font-medium text-slate-700">Tổng lưu chuyển</th>
+                <th className="px-6 py-3 text-right font-medium text-slate-700">Tổng lưu chuyển ({baseCurrency})</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200 bg-white">
@@ -319,13 +382,13 @@ export const AggregationView: React.FC<AggregationViewProps> = ({ transactions }
                               <tbody className="divide-y divide-slate-100">
                                 {group.transactions.map((tx, tIdx) => (
                                   <tr key={tIdx} className="hover:bg-slate-50 transition-colors">
-                                    <td className="px-4 py-2 text-xs text-slate-600 whitespace-nowrap font-mono">{tx.date}</td>
+                                    <td className="px-4 py-2 text-xs text-slate-600 whitespace-nowrap font-mono">{formatTransactionDate(tx)}</td>
                                     <td className="px-4 py-2 text-xs text-slate-700">{tx.description}</td>
                                     <td className="px-4 py-2 text-xs text-slate-500">
                                        <span className="px-1.5 py-0.5 bg-slate-100 rounded text-[10px] border border-slate-200">{tx.category || '-'}</span>
                                     </td>
                                     <td className={`px-4 py-2 text-right text-xs font-bold whitespace-nowrap ${tx.type === 'CREDIT' ? 'text-green-600' : 'text-red-600'}`}>
-                                      {tx.type === 'CREDIT' ? '+' : '-'}{formatCurrency(tx.amount)}
+                                      {tx.type === 'CREDIT' ? '+' : '-'}{formatMoney(tx.amount, getTransactionCurrency(tx, currency))}
                                     </td>
                                   </tr>
                                 ))}
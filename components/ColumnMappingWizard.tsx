@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMap, DateFormat, HeaderDetection, SignConvention, StatementColumn } from '../utils/bankProfiles';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  sheetName: string;
+  preview: any[][];
+  onConfirm: (mapping: HeaderDetection, headerRow: any[], templateName: string | null) => void;
+  onCancel: () => void;
+}
+
+const COLUMN_OPTIONS: { value: StatementColumn; label: string }[] = [
+  { value: 'date', label: 'Ngày' },
+  { value: 'amount', label: 'Số tiền (một cột)' },
+  { value: 'credit', label: 'Ghi có (Tiền vào)' },
+  { value: 'debit', label: 'Ghi nợ (Tiền ra)' },
+  { value: 'description', label: 'Nội dung' },
+  { value: 'code', label: 'Mã GD' },
+  { value: 'account', label: 'Số TK đối tác' },
+  { value: 'balance', label: 'Số dư' }
+];
+
+const cellText = (cell: any) => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toLocaleDateString('vi-VN');
+  return String(cell);
+};
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ fileName, sheetName, preview, onConfirm, onCancel }) => {
+  const [headerRowIndex, setHeaderRowIndex] = useState<number | null>(null);
+  const [assignments, setAssignments] = useState<Record<number, StatementColumn | ''>>({});
+  const [dateFormat, setDateFormat] = useState<DateFormat>('DMY');
+  const [sign, setSign] = useState<SignConvention>('SIGNED');
+  const [saveTemplate, setSaveTemplate] = useState(true);
+  const [templateName, setTemplateName] = useState('');
+
+  const columnCount = useMemo(() => preview.reduce((max, row) => Math.max(max, row ? row.length : 0), 0), [preview]);
+
+  const colMap = useMemo(() => {
+    const map: ColumnMap = {};
+    Object.keys(assignments).forEach(key => {
+      const column = assignments[Number(key)];
+      if (column) map[column] = Number(key);
+    });
+    return map;
+  }, [assignments]);
+
+  const hasSplitColumns = colMap.credit !== undefined && colMap.debit !== undefined;
+  const isValid = headerRowIndex !== null && colMap.date !== undefined && (colMap.amount !== undefined || hasSplitColumns);
+
+  const handleAssign = (colIdx: number, column: StatementColumn | '') => {
+    const next = { ...assignments };
+    // Mỗi loại cột chỉ gán cho một cột của sheet
+    if (column) {
+      Object.keys(next).forEach(key => {
+        if (next[Number(key)] === column) next[Number(key)] = '';
+      });
+    }
+    next[colIdx] = column;
+    setAssignments(next);
+  };
+
+  const handleConfirm = () => {
+    if (!isValid || headerRowIndex === null) return;
+    const mapping: HeaderDetection = {
+      headerRowIndex,
+      colMap,
+      dateFormat,
+      sign: hasSplitColumns ? 'SPLIT' : sign
+    };
+    const name = templateName.trim() || fileName;
+    onConfirm(mapping, preview[headerRowIndex] || [], saveTemplate ? name : null);
+  };
+
+  return (
+    <div className="w-full bg-white rounded-xl shadow-md border border-slate-200 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-slate-800">Gán cột thủ công</h3>
+        <p className="text-sm text-slate-500 mt-1">
+          Không tự nhận diện được dòng tiêu đề trong <span className="font-medium text-slate-700">{fileName}</span> (sheet "{sheetName}").
+          Hãy chọn dòng tiêu đề, sau đó gán loại dữ liệu cho từng cột.
+        </p>
+      </div>
+
+      <div className="overflow-auto max-h-[420px] border border-slate-200 rounded-lg">
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-50 sticky top-0 z-10">
+            <tr>
+              <th className="px-2 py-2 text-left font-medium text-slate-500 w-16">Tiêu đề</th>
+              {Array.from({ length: columnCount }, (_, colIdx) => (
+                <th key={colIdx} className="px-2 py-2 text-left font-medium text-slate-700 min-w-[120px]">
+                  <select
+                    value={assignments[colIdx] || ''}
+                    onChange={(e) => handleAssign(colIdx, e.target.value as StatementColumn | '')}
+                    className="block w-full rounded border border-slate-300 py-1 px-1 text-xs bg-white"
+                  >
+                    <option value="">- Bỏ qua -</option>
+                    {COLUMN_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {preview.map((row, rowIdx) => (
+              <tr
+                key={rowIdx}
+                onClick={() => setHeaderRowIndex(rowIdx)}
+                className={`cursor-pointer ${headerRowIndex === rowIdx ? 'bg-blue-50 font-semibold text-blue-800' : headerRowIndex !== null && rowIdx < headerRowIndex ? 'text-slate-300' : 'hover:bg-slate-50 text-slate-700'}`}
+              >
+                <td className="px-2 py-1.5">
+                  <input type="radio" readOnly checked={headerRowIndex === rowIdx} className="mr-1" />
+                  {rowIdx + 1}
+                </td>
+                {Array.from({ length: columnCount }, (_, colIdx) => (
+                  <td key={colIdx} className="px-2 py-1.5 whitespace-nowrap max-w-[200px] truncate" title={cellText(row?.[colIdx])}>
+                    {cellText(row?.[colIdx])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Định dạng ngày</label>
+          <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} className="block w-full rounded-md border border-slate-300 py-1.5 px-2">
+            <option value="DMY">Ngày/Tháng/Năm</option>
+            <option value="MDY">Tháng/Ngày/Năm</option>
+            <option value="YMD">Năm-Tháng-Ngày</option>
+          </select>
+        </div>
+        {!hasSplitColumns && (
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Quy ước dấu số tiền</label>
+            <select value={sign} onChange={(e) => setSign(e.target.value as SignConvention)} className="block w-full rounded-md border border-slate-300 py-1.5 px-2">
+              <option value="SIGNED">Số âm là tiền ra</option>
+              <option value="SIGNED_INVERTED">Số âm là tiền vào</option>
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-500 mb-1">
+            <input type="checkbox" checked={saveTemplate} onChange={(e) => setSaveTemplate(e.target.checked)} />
+            Lưu mẫu để tự nhận diện lần sau
+          </label>
+          {saveTemplate && (
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder={`Tên mẫu (mặc định: ${fileName})`}
+              className="block w-full rounded-md border border-slate-300 py-1.5 px-2"
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 flex items-center justify-between">
+        <p className="text-xs text-slate-500">
+          {isValid ? 'Sẵn sàng nhập dữ liệu.' : 'Cần chọn dòng tiêu đề, cột Ngày và cột Số tiền (hoặc cả Ghi có lẫn Ghi nợ).'}
+        </p>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-slate-600 border border-slate-200 rounded-md hover:bg-slate-100">
+            Hủy
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!isValid}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Nhập dữ liệu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,99 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
+import { UploadQueueItem } from '../types';
+import { isSupportedStatementFile } from '../utils/statementImport';
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
+  // Chọn nhiều file / cả thư mục: xử lý theo hàng đợi rồi gộp
+  onFilesUpload?: (files: File[]) => void;
+  queue?: UploadQueueItem[];
   isLoading: boolean;
   progress: number;
+  progressMessage?: string; // Bước đang xử lý (file Excel lớn)
   processedPages?: number;
   totalPages?: number;
+  // Chỉ có khi đang phân tích PDF (lượt phân tích hỗ trợ hủy / tạm dừng)
+  isPaused?: boolean;
+  onCancel?: () => void;
+  onTogglePause?: () => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading, progress, processedPages, totalPages }) => {
+const QUEUE_STATUS_LABELS: Record<UploadQueueItem['status'], string> = {
+  pending: 'Chờ',
+  processing: 'Đang xử lý',
+  done: 'Xong',
+  failed: 'Lỗi'
+};
+
+/**
+ * Lấy toàn bộ file bên trong thư mục được kéo thả (đệ quy)
+ */
+const readEntryFiles = async (entry: any): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise(resolve => entry.file((file: File) => resolve([file]), () => resolve([])));
+  }
+  if (!entry.isDirectory) return [];
+
+  const reader = entry.createReader();
+  const entries: any[] = [];
+  // readEntries trả về từng đợt, gọi tới khi rỗng
+  while (true) {
+    const batch: any[] = await new Promise(resolve => reader.readEntries(resolve, () => resolve([])));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+  const nested = await Promise.all(entries.map(readEntryFiles));
+  return nested.flat();
+};
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onFilesUpload, queue, isLoading, progress, progressMessage, processedPages, totalPages, isPaused, onCancel, onTogglePause }) => {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = useCallback((files: File[]) => {
+    // Simple check on extension for SQL as MIME type varies
+    const validFiles = files.filter(file => isSupportedStatementFile(file.name));
+
+    if (validFiles.length === 0) {
+      alert('Vui lòng chỉ chọn file PDF, Excel (.xlsx), CSV, OFX/QFX, QIF, MT940, camt.053 (.xml) hoặc Backup SQL (.sql).');
+      return;
+    }
+    if (validFiles.length > 1 && onFilesUpload) {
+      onFilesUpload(validFiles.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })));
+    } else {
+      onFileUpload(validFiles[0]);
+    }
+  }, [onFileUpload, onFilesUpload]);
+
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const fileList = event.target.files;
     if (fileList && fileList.length > 0) {
-      const file = fileList[0];
-      const validTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel', 'application/sql', 'text/plain'];
-      const validExtensions = ['.pdf', '.xlsx', '.xls', '.sql'];
-      
-      // Simple check on extension for SQL as MIME type varies
-      const isValidExt = validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
-
-      if (isValidExt) {
-        onFileUpload(file);
-      } else {
-        alert('Vui lòng chỉ chọn file PDF, Excel (.xlsx) hoặc Backup SQL (.sql).');
-      }
+      handleFiles(Array.from(fileList));
     }
-  }, [onFileUpload]);
+    event.target.value = '';
+  }, [handleFiles]);
+
+  const handleDrop = useCallback(async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isLoading) return;
+
+    // Thư mục chỉ đọc được qua webkitGetAsEntry, phải lấy entry trước khi await
+    const entries = Array.from(event.dataTransfer.items || [])
+      .map(item => (item as any).webkitGetAsEntry?.())
+      .filter(Boolean);
+    const files = entries.length > 0
+      ? (await Promise.all(entries.map(readEntryFiles))).flat()
+      : Array.from(event.dataTransfer.files);
+    if (files.length > 0) handleFiles(files);
+  }, [handleFiles, isLoading]);
 
   return (
-    <div className="w-full max-w-xl mx-auto p-6 bg-white rounded-xl shadow-md border border-slate-200">
+    <div
+      className={`w-full max-w-xl mx-auto p-6 bg-white rounded-xl shadow-md border ${isDragging ? 'border-blue-400 ring-2 ring-blue-200' : 'border-slate-200'}`}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <div className="text-center">
         <div className="mb-4 flex justify-center">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -36,7 +101,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading,
           </svg>
         </div>
         <h3 className="text-lg font-semibold text-slate-800 mb-2">Tải lên sao kê ngân hàng</h3>
-        <p className="text-sm text-slate-500 mb-6">Hỗ trợ PDF, Excel (.xlsx) hoặc khôi phục từ SQL</p>
+        <p className="text-sm text-slate-500 mb-6">
+          Hỗ trợ PDF, Excel (.xlsx), CSV, OFX/QFX, QIF, MT940, camt.053 hoặc khôi phục từ SQL.
+          {onFilesUpload && <> Có thể chọn hoặc kéo thả nhiều file / cả thư mục để gộp.</>}
+        </p>
         
         <label className={`block w-full cursor-pointer ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}>
           <span className="sr-only">Chọn file</span>
@@ -49,17 +117,32 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading,
               file:bg-blue-50 file:text-blue-700
               hover:file:bg-blue-100
               cursor-pointer"
-            accept=".pdf, .xlsx, .xls, .sql"
+            accept=".pdf, .xlsx, .xls, .csv, .ofx, .qfx, .qif, .sta, .mt940, .940, .xml, .sql"
+            multiple={!!onFilesUpload}
             onChange={handleFileChange}
             disabled={isLoading}
           />
         </label>
+
+        {onFilesUpload && (
+          <label className={`inline-block mt-3 text-sm text-blue-600 hover:underline cursor-pointer ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}>
+            Hoặc chọn cả thư mục
+            <input
+              type="file"
+              className="hidden"
+              // Thuộc tính không chuẩn nhưng được mọi trình duyệt chính hỗ trợ
+              {...({ webkitdirectory: '' } as any)}
+              onChange={handleFileChange}
+              disabled={isLoading}
+            />
+          </label>
+        )}
         
         {isLoading && (
           <div className="mt-6 w-full text-left bg-slate-50 p-4 rounded-lg border border-slate-200">
              <div className="flex justify-between mb-2">
-                <span className="text-sm font-semibold text-blue-700">
-                  Đang xử lý... {totalPages && totalPages > 0 ? `(Trang ${processedPages}/${totalPages})` : ''}
+                <span className={`text-sm font-semibold ${isPaused ? 'text-amber-600' : 'text-blue-700'}`}>
+                  {isPaused ? 'Đã tạm dừng' : 'Đang xử lý...'} {totalPages && totalPages > 0 ? `(Trang ${processedPages}/${totalPages})` : ''}
                 </span>
                 <span className="text-sm font-medium text-slate-600">{progress}%</span>
               </div>
@@ -70,8 +153,50 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading,
                 ></div>
               </div>
               <p className="text-xs text-slate-500 mt-2 italic">
-                Hệ thống đang đọc và phân tích dữ liệu. Vui lòng không tắt trình duyệt.
+                {progressMessage || 'Hệ thống đang đọc và phân tích dữ liệu.'} Vui lòng không tắt trình duyệt.
               </p>
+              {queue && queue.length > 0 && (
+                <ul className="mt-3 space-y-1.5 max-h-60 overflow-y-auto">
+                  {queue.map((item, index) => (
+                    <li key={`${item.name}-${index}`} className="text-xs">
+                      <div className="flex justify-between gap-2">
+                        <span className="truncate text-slate-700" title={item.name}>{item.name}</span>
+                        <span className={`shrink-0 ${item.status === 'failed' ? 'text-red-600' : item.status === 'done' ? 'text-green-600' : 'text-slate-500'}`}>
+                          {QUEUE_STATUS_LABELS[item.status]}
+                          {item.status === 'processing' && ` ${item.progress}%`}
+                          {item.status === 'done' && item.rowCount !== undefined && ` (${item.rowCount} GD)`}
+                        </span>
+                      </div>
+                      {item.status === 'processing' && (
+                        <div className="w-full bg-slate-200 rounded-full h-1 mt-1 overflow-hidden">
+                          <div className="bg-blue-400 h-1 rounded-full transition-all duration-300" style={{ width: `${item.progress}%` }}></div>
+                        </div>
+                      )}
+                      {item.error && <p className="text-red-500 truncate" title={item.error}>{item.error}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {(onCancel || onTogglePause) && (
+                <div className="mt-3 flex justify-end gap-2">
+                  {onTogglePause && (
+                    <button
+                      onClick={onTogglePause}
+                      className="px-3 py-1.5 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+                    >
+                      {isPaused ? 'Tiếp tục' : 'Tạm dừng'}
+                    </button>
+                  )}
+                  {onCancel && (
+                    <button
+                      onClick={onCancel}
+                      className="px-3 py-1.5 text-xs font-medium text-red-600 bg-white border border-red-200 rounded-md hover:bg-red-50"
+                    >
+                      Hủy (giữ các trang đã xong)
+                    </button>
+                  )}
+                </div>
+              )}
           </div>
         )}
       </div>
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { FxRateTable } from '../utils/fxRates';
+import { DEFAULT_CURRENCY, normalizeCurrencyCode } from '../utils/currency';
+
+interface FxRateSettingsProps {
+  rates: FxRateTable;
+  onChange: (rates: FxRateTable) => void;
+  missingCurrencies: string[]; // Loại tiền có trong sao kê nhưng chưa có tỷ giá
+}
+
+export const FxRateSettings: React.FC<FxRateSettingsProps> = ({ rates, onChange, missingCurrencies }) => {
+  const [newCode, setNewCode] = useState('');
+  const [newRate, setNewRate] = useState('');
+
+  const codes = Array.from(new Set([...Object.keys(rates), ...missingCurrencies])).sort();
+
+  const updateRate = (code: string, value: string) => {
+    const rate = Number(value);
+    const next = { ...rates };
+    if (value === '' || !(rate > 0)) {
+      delete next[code];
+    } else {
+      next[code] = rate;
+    }
+    onChange(next);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeCurrencyCode(newCode);
+    if (!code || code === DEFAULT_CURRENCY) {
+      alert('Mã tiền tệ cần gồm 3 chữ cái (VD: USD, EUR) và khác VND.');
+      return;
+    }
+    updateRate(code, newRate);
+    setNewCode('');
+    setNewRate('');
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold text-slate-800">Bảng tỷ giá</h4>
+        <p className="text-xs text-slate-500">Giá trị của 1 đơn vị ngoại tệ tính bằng VND. Bảng được lưu trên trình duyệt này.</p>
+      </div>
+
+      <table className="min-w-full text-sm">
+        <tbody className="divide-y divide-slate-100">
+          {codes.map(code => (
+            <tr key={code}>
+              <td className="py-1.5 pr-4 font-mono font-medium text-slate-700 w-20">
+                {code}
+                {missingCurrencies.includes(code) && <span className="ml-1 text-amber-600" title="Chưa có tỷ giá">⚠</span>}
+              </td>
+              <td className="py-1.5">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={rates[code] ?? ''}
+                  placeholder="Chưa có tỷ giá"
+                  onChange={(e) => updateRate(code, e.target.value)}
+                  className="w-40 rounded-md border border-slate-300 px-2 py-1 text-sm text-right focus:border-blue-500 focus:outline-none"
+                />
+                <span className="ml-2 text-xs text-slate-500">VND</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <input
+          value={newCode}
+          onChange={(e) => setNewCode(e.target.value)}
+          placeholder="Mã (VD: JPY)"
+          maxLength={3}
+          className="w-28 rounded-md border border-slate-300 px-2 py-1 text-sm uppercase focus:border-blue-500 focus:outline-none"
+        />
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={newRate}
+          onChange={(e) => setNewRate(e.target.value)}
+          placeholder="Tỷ giá"
+          className="w-40 rounded-md border border-slate-300 px-2 py-1 text-sm text-right focus:border-blue-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded border border-blue-200 transition-colors"
+        >
+          Thêm
+        </button>
+      </form>
+    </div>
+  );
+};
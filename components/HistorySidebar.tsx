@@ -1,5 +1,8 @@
 import React from 'react';
 import { SavedStatementSummary } from '../types';
+import { describeSettingsSnapshot } from '../utils/providerSettings';
+import { describeUsage } from '../utils/aiUsage';
+import { UsageHistoryPanel } from './UsageHistoryPanel';
 
 interface HistorySidebarProps {
   isOpen: boolean;
@@ -31,6 +34,9 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose,
           </div>
 
           <div className="flex-1 overflow-y-auto p-4">
+            {/* Đọc lại nhật ký mỗi lần mở */}
+            {isOpen && <UsageHistoryPanel />}
+
             {items.length === 0 ? (
               <div className="text-center py-10 text-slate-500">
                 <p>Chưa có sao kê nào được lưu.</p>
@@ -49,6 +55,16 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose,
                       <p className="text-xs text-slate-400 mt-1">
                         Lưu: {new Date(item.savedAt).toLocaleString('vi-VN')}
                       </p>
+                      {item.extractionSettings && (
+                        <p className="text-[10px] text-slate-400 mt-1 truncate" title={describeSettingsSnapshot(item.extractionSettings)}>
+                          AI: {item.extractionSettings.model}
+                        </p>
+                      )}
+                      {item.usage && item.usage.length > 0 && (
+                        <p className="text-[10px] text-slate-400 mt-0.5 truncate" title={describeUsage(item.usage)}>
+                          {describeUsage(item.usage)}
+                        </p>
+                      )}
                     </div>
                     
                     <button 
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { PageReport } from '../types';
+import { isRowCountMismatch } from '../utils/pageBoundary';
+
+interface PageReportPanelProps {
+  reports: PageReport[];
+  canRetry: boolean; // Cần file PDF gốc còn trong phiên làm việc, không áp dụng cho sao kê gộp nhiều file
+  isRetrying: boolean;
+  retryProgress: number;
+  onRetry: (pages: number[]) => void;
+}
+
+const STATUS_STYLES: Record<PageReport['status'], string> = {
+  ok: 'bg-green-50 text-green-700 border-green-200',
+  empty: 'bg-slate-50 text-slate-500 border-slate-200',
+  failed: 'bg-red-50 text-red-700 border-red-200'
+};
+
+// Trang đọc được nhưng số dòng lệch nhiều so với bảng: cần kiểm tra lại
+const MISMATCH_STYLE = 'bg-amber-50 text-amber-700 border-amber-300';
+
+const STATUS_LABELS: Record<PageReport['status'], string> = {
+  ok: 'OK',
+  empty: 'Trống',
+  failed: 'Lỗi'
+};
+
+// Sao kê gộp: số trang của các file trùng nhau nên ghi kèm tên file
+const pageLabel = (report: PageReport) => (report.file ? `${report.file} - trang ${report.page}` : `Trang ${report.page}`);
+
+export const PageReportPanel: React.FC<PageReportPanelProps> = ({ reports, canRetry, isRetrying, retryProgress, onRetry }) => {
+  const isMerged = reports.some(r => r.file);
+  const failedPages = reports.filter(r => r.status === 'failed').map(r => r.page);
+  const [selected, setSelected] = useState<Set<number>>(new Set(failedPages));
+  const [isExpanded, setIsExpanded] = useState(
+    failedPages.length > 0 || reports.some(r => isRowCountMismatch(r.rowCount, r.expectedRows))
+  );
+
+  // Sau khi chạy lại, chọn lại các trang còn lỗi
+  useEffect(() => {
+    setSelected(new Set(reports.filter(r => r.status === 'failed').map(r => r.page)));
+  }, [reports]);
+
+  const toggle = (page: number) => {
+    const next = new Set(selected);
+    if (next.has(page)) {
+      next.delete(page);
+    } else {
+      next.add(page);
+    }
+    setSelected(next);
+  };
+
+  const counts = {
+    ok: reports.filter(r => r.status === 'ok').length,
+    empty: reports.filter(r => r.status === 'empty').length,
+    failed: failedPages.length
+  };
+  const textPages = reports.filter(r => r.method === 'text').length;
+  const cachedPages = reports.filter(r => r.cached).length;
+  const mismatchedPages = reports.filter(r => r.status !== 'failed' && isRowCountMismatch(r.rowCount, r.expectedRows));
+  const duplicatesRemoved = reports.reduce((sum, r) => sum + (r.duplicatesRemoved || 0), 0);
+
+  const describe = (report: PageReport) => {
+    if (report.error) return report.error;
+    const parts = [`${report.rowCount} giao dịch`];
+    if (report.expectedRows !== undefined) parts.push(`bảng có ${report.expectedRows} dòng`);
+    if (report.duplicatesRemoved) parts.push(`đã bỏ ${report.duplicatesRemoved} dòng lặp/chuyển trang`);
+    if (report.usage) {
+      parts.push(`${report.usage.inputTokens + report.usage.outputTokens} token, ${(report.usage.latencyMs / 1000).toFixed(1)} giây`);
+      if (report.usage.retries > 0) parts.push(`thử lại ${report.usage.retries} lần`);
+    }
+    return parts.join(', ');
+  };
+
+  return (
+    <div className={`mt-4 p-3 rounded-lg border text-sm ${counts.failed > 0 ? 'border-red-200 bg-red-50/50' : 'border-slate-200 bg-slate-50'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-slate-700">
+          <span className="font-semibold">{reports.length} trang:</span> {counts.ok} OK
+          {counts.empty > 0 && <>, {counts.empty} trống</>}
+          {counts.failed > 0 && <span className="text-red-700 font-semibold">, {counts.failed} lỗi</span>}
+          {mismatchedPages.length > 0 && <span className="text-amber-700 font-semibold">, {mismatchedPages.length} trang lệch số dòng</span>}
+          {duplicatesRemoved > 0 && <>, đã bỏ {duplicatesRemoved} dòng lặp</>}
+          <span className="text-slate-400"> • {textPages} trang đọc từ lớp văn bản, {reports.length - textPages} trang dùng AI{cachedPages > 0 && <> ({cachedPages} trang lấy từ bộ nhớ đệm)</>}</span>
+        </span>
+        <button onClick={() => setIsExpanded(!isExpanded)} className="text-xs text-blue-600 hover:underline">
+          {isExpanded ? 'Thu gọn' : 'Chi tiết'}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <>
+          <div className="mt-3 flex flex-wrap gap-2">
+            {reports.map(report => (
+              <label
+                key={`${report.file || ''}-${report.page}`}
+                title={describe(report)}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded border text-xs ${mismatchedPages.includes(report) ? MISMATCH_STYLE : STATUS_STYLES[report.status]} ${canRetry ? 'cursor-pointer' : ''}`}
+              >
+                {canRetry && (
+                  <input
+                    type="checkbox"
+                    checked={selected.has(report.page)}
+                    disabled={isRetrying}
+                    onChange={() => toggle(report.page)}
+                  />
+                )}
+                {pageLabel(report)}: {STATUS_LABELS[report.status]}
+                {report.status === 'ok' && <span className="opacity-70">({report.rowCount}{mismatchedPages.includes(report) ? `/${report.expectedRows}` : ''})</span>}
+              </label>
+            ))}
+          </div>
+
+          {reports.filter(r => r.status === 'failed' && r.error).map(r => (
+            <p key={`${r.file || ''}-${r.page}`} className="mt-2 text-xs text-red-600">{pageLabel(r)}: {r.error}</p>
+          ))}
+          {mismatchedPages.map(r => (
+            <p key={`mismatch-${r.file || ''}-${r.page}`} className="mt-2 text-xs text-amber-700">
+              {pageLabel(r)}: đọc được {r.rowCount} giao dịch nhưng bảng có {r.expectedRows} dòng - nên kiểm tra hoặc chạy lại trang này.
+            </p>
+          ))}
+
+          <div className="mt-3 flex items-center justify-end gap-3">
+            {!canRetry && (
+              <span className="text-xs text-slate-500">
+                {isMerged ? 'Sao kê gộp nhiều file: tải riêng từng file PDF để chạy lại trang.' : 'Tải lại file PDF gốc để chạy lại trang.'}
+              </span>
+            )}
+            {isRetrying && <span className="text-xs text-slate-500">Đang xử lý... {retryProgress}%</span>}
+            {canRetry && (
+              <button
+                onClick={() => onRetry(Array.from(selected).sort((a: number, b: number) => a - b))}
+                disabled={selected.size === 0 || isRetrying}
+                className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Chạy lại {selected.size} trang
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
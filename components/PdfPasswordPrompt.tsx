@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+
+interface PdfPasswordPromptProps {
+  fileName: string;
+  isIncorrect: boolean;
+  onSubmit: (password: string, remember: boolean) => void;
+  onCancel: () => void;
+}
+
+export const PdfPasswordPrompt: React.FC<PdfPasswordPromptProps> = ({ fileName, isIncorrect, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (password) onSubmit(password, remember);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-xl mx-auto p-6 bg-white rounded-xl shadow-md border border-slate-200">
+      <h3 className="text-lg font-semibold text-slate-800">Nhập mật khẩu PDF</h3>
+      <p className="text-sm text-slate-500 mt-1 mb-4">
+        <span className="font-medium text-slate-700">{fileName}</span> được bảo vệ bằng mật khẩu.
+        Ngân hàng thường dùng số CCCD/CMND hoặc ngày sinh (VD: 01011990) làm mật khẩu.
+      </p>
+
+      <input
+        type="password"
+        autoFocus
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Mật khẩu"
+        className={`block w-full rounded-md border py-2 px-3 text-sm ${isIncorrect ? 'border-red-400' : 'border-slate-300'}`}
+      />
+      {isIncorrect && <p className="text-xs text-red-600 mt-1">Mật khẩu không đúng, vui lòng thử lại.</p>}
+
+      <label className="flex items-center gap-2 mt-3 text-sm text-slate-600 cursor-pointer">
+        <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+        Nhớ mật khẩu cho ngân hàng/tài khoản này trong phiên làm việc
+      </label>
+      <p className="text-xs text-slate-400 mt-1 ml-6">Chỉ giữ trong bộ nhớ tạm, mất khi tải lại trang. Không lưu vào trình duyệt hay file backup.</p>
+
+      <div className="mt-6 flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-slate-600 border border-slate-200 rounded-md hover:bg-slate-100">
+          Hủy
+        </button>
+        <button
+          type="submit"
+          disabled={!password}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Mở file
+        </button>
+      </div>
+    </form>
+  );
+};
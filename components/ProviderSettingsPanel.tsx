@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import {
+  ProviderSettings, ProviderId, ExtractionTuning, DEFAULT_MODELS, EXTRACTION_PRESETS,
+  applyExtractionPreset, getMockRecordingStore, saveMockRecordingStore, MockRecordingStore
+} from '../utils/providerSettings';
+import { getPageCacheStats, clearPageCache } from '../utils/pageCache';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const PROVIDER_OPTIONS: { value: ProviderId; label: string }[] = [
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'openai', label: 'Server tương thích OpenAI (tự host)' },
+  { value: 'mock', label: 'Mock (phát lại phản hồi đã ghi)' }
+];
+
+// Giới hạn cho từng thông số trích xuất (nhập ngoài khoảng sẽ bị kéo về biên)
+const TUNING_FIELDS: { key: keyof ExtractionTuning; label: string; min: number; max: number; step: number }[] = [
+  { key: 'batchSize', label: 'Số trang mỗi request', min: 1, max: 5, step: 1 },
+  { key: 'concurrency', label: 'Số request song song', min: 1, max: 8, step: 1 },
+  { key: 'batchDelayMs', label: 'Nghỉ giữa các request (ms)', min: 0, max: 60000, step: 500 },
+  { key: 'maxRetries', label: 'Số lần thử lại (429 / 503)', min: 0, max: 10, step: 1 },
+  { key: 'renderScale', label: 'Độ phóng ảnh trang', min: 1, max: 4, step: 0.5 },
+  { key: 'jpegQuality', label: 'Chất lượng JPEG (0.5 - 1)', min: 0.5, max: 1, step: 0.05 }
+];
+
+const countRecording = (store: MockRecordingStore) => ({
+  files: Object.keys(store).length,
+  pages: Object.values(store).reduce((sum, pages) => sum + Object.keys(pages).length, 0)
+});
+
+// Bản ghi hợp lệ: { "hash file": { "số trang": "phản hồi" } }
+const isRecordingStore = (value: any): value is MockRecordingStore =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.values(value).every(pages => !!pages && typeof pages === 'object' && Object.values(pages).every(text => typeof text === 'string'));
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [recorded, setRecorded] = useState(() => countRecording(getMockRecordingStore()));
+  const [cacheStats, setCacheStats] = useState(() => getPageCacheStats());
+
+  const update = (patch: Partial<ProviderSettings>) => onChange({ ...settings, ...patch });
+
+  const handleProviderChange = (provider: ProviderId) => {
+    // Đổi provider thì đổi luôn model mặc định nếu người dùng chưa tự nhập model khác
+    const isDefaultModel = Object.values(DEFAULT_MODELS).includes(settings.model) || !settings.model;
+    update({ provider, model: isDefaultModel ? DEFAULT_MODELS[provider] : settings.model });
+  };
+
+  const handleTuningChange = (field: typeof TUNING_FIELDS[number], raw: string) => {
+    const value = Number(raw);
+    if (raw === '' || isNaN(value)) return;
+    const clamped = Math.min(field.max, Math.max(field.min, value));
+    // Tự chỉnh thông số thì không còn đúng bộ có sẵn nữa
+    update({ [field.key]: field.step >= 1 ? Math.round(clamped) : clamped, preset: undefined });
+  };
+
+  const handleImportRecording = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const store = JSON.parse(await file.text());
+      if (!isRecordingStore(store)) throw new Error('Sai định dạng');
+      saveMockRecordingStore(store);
+      setRecorded(countRecording(store));
+    } catch (error) {
+      alert('File bản ghi không hợp lệ (cần JSON dạng { "hash file": { "số trang": "phản hồi" } }, bản ghi dạng cũ chỉ theo số trang không còn dùng được).');
+    }
+  };
+
+  const handleExportRecording = () => {
+    const blob = new Blob([JSON.stringify(getMockRecordingStore(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ai_recording.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearCache = () => {
+    if (window.confirm('Xóa kết quả AI đã lưu? Lần tải lên sau sẽ phải phân tích lại từ đầu.')) {
+      clearPageCache();
+      setCacheStats(getPageCacheStats());
+    }
+  };
+
+  const providerLabel = PROVIDER_OPTIONS.find(o => o.value === settings.provider)?.label;
+  const activePreset = EXTRACTION_PRESETS.find(p => p.id === settings.preset);
+
+  return (
+    <div className="w-full max-w-xl mx-auto mt-4">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50"
+      >
+        <span>
+          Cấu hình AI: <span className="font-medium text-slate-800">{providerLabel}</span> • {settings.model}
+          {activePreset && <> • {activePreset.label}</>}
+        </span>
+        <span className="text-slate-400">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-4 bg-white border border-slate-200 rounded-lg space-y-3 text-sm">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Provider</label>
+            <select
+              value={settings.provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              className="block w-full rounded-md border border-slate-300 py-1.5 px-2"
+            >
+              {PROVIDER_OPTIONS.map(opt => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {settings.provider !== 'mock' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Model</label>
+              <input
+                type="text"
+                value={settings.model}
+                onChange={(e) => update({ model: e.target.value })}
+                className="block w-full rounded-md border border-slate-300 py-1.5 px-2"
+              />
+            </div>
+          )}
+
+          {settings.provider === 'openai' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Địa chỉ server (Base URL)</label>
+              <input
+                type="text"
+                value={settings.endpoint}
+                onChange={(e) => update({ endpoint: e.target.value })}
+                placeholder="http://localhost:8000/v1"
+                className="block w-full rounded-md border border-slate-300 py-1.5 px-2"
+              />
+              <p className="text-xs text-slate-400 mt-1">Ảnh trang sao kê chỉ được gửi tới server này.</p>
+            </div>
+          )}
+
+          {settings.provider !== 'mock' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">API Key (tùy chọn)</label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                placeholder={settings.provider === 'gemini' ? 'Để trống để dùng key mặc định' : 'Để trống nếu server không yêu cầu'}
+                className="block w-full rounded-md border border-slate-300 py-1.5 px-2"
+              />
+              <p className="text-xs text-slate-400 mt-1">Key chỉ được giữ trong tab này, đóng tab sẽ phải nhập lại.</p>
+            </div>
+          )}
+
+          {settings.provider !== 'mock' && (
+            <div className="pt-2 border-t border-slate-100 space-y-2">
+              <label className="block text-xs font-medium text-slate-500">Thông số trích xuất</label>
+              <div className="flex flex-wrap gap-2">
+                {EXTRACTION_PRESETS.map(preset => (
+                  <button
+                    key={preset.id}
+                    onClick={() => onChange(applyExtractionPreset(settings, preset.id))}
+                    className={`px-3 py-1 text-xs rounded-md border ${settings.preset === preset.id
+                      ? 'bg-blue-50 text-blue-700 border-blue-300 font-medium'
+                      : 'text-slate-600 border-slate-200 hover:bg-slate-100'}`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-400">
+                {activePreset ? activePreset.description : 'Đang dùng thông số tùy chỉnh.'}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {TUNING_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-xs text-slate-500 mb-1">{field.label}</label>
+                    <input
+                      type="number"
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      value={settings[field.key]}
+                      onChange={(e) => handleTuningChange(field, e.target.value)}
+                      className="block w-full rounded-md border border-slate-300 py-1 px-2"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-2 border-t border-slate-100">
+            <span className="text-xs text-slate-500">Bản ghi phản hồi: {recorded.pages} trang của {recorded.files} file</span>
+            <div className="flex gap-2">
+              <label className="cursor-pointer px-3 py-1 text-xs text-slate-600 border border-slate-200 rounded-md hover:bg-slate-100">
+                Nhập bản ghi
+                <input type="file" accept=".json" className="hidden" onChange={handleImportRecording} />
+              </label>
+              <button
+                onClick={handleExportRecording}
+                disabled={recorded.pages === 0}
+                className="px-3 py-1 text-xs text-slate-600 border border-slate-200 rounded-md hover:bg-slate-100 disabled:opacity-50"
+              >
+                Tải bản ghi
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-500">Bộ nhớ đệm: {cacheStats.pages} trang của {cacheStats.files} file</span>
+            <button
+              onClick={handleClearCache}
+              disabled={cacheStats.files === 0}
+              className="px-3 py-1 text-xs text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+            >
+              Xóa bộ nhớ đệm
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ReconciliationResult } from '../types';
+import { formatMoney } from '../utils/currency';
+
+interface ReconciliationSummaryProps {
+  result: ReconciliationResult;
+  currency?: string;
+}
+
+export const ReconciliationSummary: React.FC<ReconciliationSummaryProps> = ({ result, currency }) => {
+  const formatCurrency = (val: number) => formatMoney(val, currency);
+
+  if (result.isBalanced === null) {
+    return (
+      <div className="mt-4 p-3 rounded-lg border border-slate-200 bg-slate-50 text-xs text-slate-500">
+        Không đủ dữ liệu số dư để đối chiếu sao kê (thiếu số dư đầu kỳ hoặc cuối kỳ).
+      </div>
+    );
+  }
+
+  const tone = result.isBalanced
+    ? 'border-green-200 bg-green-50 text-green-800'
+    : 'border-amber-200 bg-amber-50 text-amber-800';
+
+  return (
+    <div className={`mt-4 p-3 rounded-lg border text-sm ${tone}`}>
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-1">
+        <span className="font-semibold flex items-center gap-1.5">
+          {result.isBalanced ? (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+            </svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+            </svg>
+          )}
+          {result.isBalanced ? 'Sao kê khớp số dư' : 'Sao kê không khớp số dư'}
+        </span>
+        <span>Đầu kỳ: <b>{formatCurrency(result.openingBalance!)}</b></span>
+        <span>+ Vào: <b>{formatCurrency(result.totalCredit)}</b></span>
+        <span>- Ra: <b>{formatCurrency(result.totalDebit)}</b></span>
+        <span>= Tính toán: <b>{formatCurrency(result.expectedClosing!)}</b></span>
+        <span>Cuối kỳ: <b>{formatCurrency(result.closingBalance!)}</b></span>
+      </div>
+      {!result.isBalanced && (
+        <p className="text-xs mt-1">
+          {result.difference !== undefined && Math.abs(result.difference) > 0.01 && (
+            <>Chênh lệch {formatCurrency(result.difference)}. </>
+          )}
+          {result.brokenRows.size > 0 && (
+            <>{result.brokenRows.size} dòng có số dư lũy kế bị đứt (đánh dấu đỏ trong bảng) - có thể thiếu hoặc đọc sai giao dịch.</>
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
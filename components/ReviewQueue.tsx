@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { needsReview, CONFIDENCE_REASON_LABELS, REVIEW_THRESHOLD } from '../utils/confidence';
+import { formatTransactionDate, normalizeTransactionDates } from '../utils/dateUtils';
+import { formatAmount, formatMoney, getTransactionCurrency } from '../utils/currency';
+import { parseCurrencyAmount } from '../utils/amountUtils';
+
+interface ReviewQueueProps {
+  transactions: Transaction[];
+  currency?: string;
+  onUpdate: (original: Transaction, updated: Transaction) => void;
+}
+
+interface ReviewDraft {
+  date: string;
+  amount: string;
+  type: Transaction['type'];
+  partner_name: string;
+  description: string;
+}
+
+// Số tiền hiển thị giống bảng giao dịch để người dùng sửa theo đúng định dạng đang thấy
+const toDraft = (tx: Transaction, currency?: string): ReviewDraft => ({
+  date: formatTransactionDate(tx),
+  amount: formatAmount(tx.amount, getTransactionCurrency(tx, currency)),
+  type: tx.type,
+  partner_name: tx.partner_name || '',
+  description: tx.description || ''
+});
+
+const describeSource = (tx: Transaction): string => {
+  const parts: string[] = [];
+  if (tx.source?.file) parts.push(tx.source.file);
+  if (tx.source?.sheet) parts.push(`Sheet ${tx.source.sheet}`);
+  if (tx.source?.page) parts.push(`Trang ${tx.source.page}`);
+  if (tx.source?.row) parts.push(`Dòng ${tx.source.row}`);
+  return parts.join(' • ');
+};
+
+/**
+ * Danh sách "Cần kiểm tra": lần lượt từng dòng có độ tin cậy thấp để người dùng xác nhận hoặc sửa
+ */
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ transactions, currency, onUpdate }) => {
+  const queue = useMemo(() => transactions.filter(needsReview), [transactions]);
+  const [position, setPosition] = useState(0);
+  const index = Math.min(position, Math.max(queue.length - 1, 0));
+  const current = queue[index];
+  const [draft, setDraft] = useState<ReviewDraft | null>(current ? toDraft(current, currency) : null);
+
+  useEffect(() => {
+    setDraft(current ? toDraft(current, currency) : null);
+  }, [current, currency]);
+
+  if (!current || !draft) {
+    return (
+      <div className="bg-white p-10 rounded-lg border border-slate-200 text-center text-slate-500">
+        <p className="font-medium text-slate-700">Không còn dòng nào cần kiểm tra.</p>
+        <p className="text-sm mt-1">Các dòng có độ tin cậy dưới {Math.round(REVIEW_THRESHOLD * 100)}% sẽ hiện ở đây.</p>
+      </div>
+    );
+  }
+
+  const update = (patch: Partial<ReviewDraft>) => setDraft({ ...draft, ...patch });
+
+  const handleConfirm = () => onUpdate(current, { ...current, reviewed: true });
+
+  const handleSave = () => {
+    // Không sửa số tiền thì giữ nguyên giá trị gốc (số hiển thị đã làm tròn theo loại tiền);
+    // có sửa thì nhận cả số có phân cách ngàn ("1.000.000", "1,000,000") như số tiền đang hiển thị
+    const amount = draft.amount === toDraft(current, currency).amount
+      ? current.amount
+      : parseCurrencyAmount(draft.amount, getTransactionCurrency(current, currency));
+    if (!(amount > 0)) {
+      alert('Số tiền phải là số dương.');
+      return;
+    }
+    const [edited] = normalizeTransactionDates([{
+      ...current,
+      date: draft.date.trim(),
+      amount,
+      type: draft.type,
+      partner_name: draft.partner_name.trim(),
+      description: draft.description.trim()
+    }]);
+    if (edited.date_invalid) {
+      alert('Ngày không hợp lệ. Nhập theo dạng DD/MM/YYYY.');
+      return;
+    }
+    onUpdate(current, { ...edited, reviewed: true });
+  };
+
+  const inputClass = 'w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-amber-50 flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-slate-800">Cần kiểm tra: dòng {index + 1}/{queue.length}</h3>
+          <p className="text-xs text-slate-500">{describeSource(current) || 'Không rõ vị trí trong file gốc'}</p>
+        </div>
+        <span className="px-2 py-1 rounded text-xs font-semibold bg-amber-100 text-amber-800 border border-amber-200">
+          Độ tin cậy {Math.round((current.confidence ?? 0) * 100)}%
+        </span>
+      </div>
+
+      <div className="p-6 space-y-5">
+        <ul className="text-sm text-slate-600 list-disc pl-5 space-y-1">
+          {(current.confidence_reasons || []).map(reason => (
+            <li key={reason}>{CONFIDENCE_REASON_LABELS[reason]}</li>
+          ))}
+        </ul>
+
+        <div className="p-3 rounded bg-slate-50 border border-slate-200 text-xs text-slate-500">
+          Đang ghi nhận: {formatTransactionDate(current)} •{' '}
+          <span className={current.type === 'CREDIT' ? 'text-green-600' : 'text-red-600'}>
+            {current.type === 'CREDIT' ? '+' : '-'}{formatMoney(current.amount, getTransactionCurrency(current, currency))}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="block">
+            <span className="block text-xs font-medium text-slate-500 mb-1">Ngày (DD/MM/YYYY)</span>
+            <input value={draft.date} onChange={(e) => update({ date: e.target.value })} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-slate-500 mb-1">Số tiền</span>
+            <input value={draft.amount} onChange={(e) => update({ amount: e.target.value })} className={`${inputClass} text-right`} inputMode="decimal" />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-slate-500 mb-1">Loại</span>
+            <select value={draft.type} onChange={(e) => update({ type: e.target.value as Transaction['type'] })} className={`${inputClass} bg-white`}>
+              <option value="CREDIT">Tiền vào (+)</option>
+              <option value="DEBIT">Tiền ra (-)</option>
+            </select>
+          </label>
+        </div>
+        <label className="block">
+          <span className="block text-xs font-medium text-slate-500 mb-1">Đối tác</span>
+          <input value={draft.partner_name} onChange={(e) => update({ partner_name: e.target.value })} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="block text-xs font-medium text-slate-500 mb-1">Nội dung</span>
+          <textarea value={draft.description} onChange={(e) => update({ description: e.target.value })} rows={2} className={inputClass} />
+        </label>
+      </div>
+
+      <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <button
+            onClick={() => setPosition(Math.max(index - 1, 0))}
+            disabled={index === 0}
+            className="px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100 disabled:opacity-40"
+          >
+            Trước
+          </button>
+          <button
+            onClick={() => setPosition(index + 1 < queue.length ? index + 1 : 0)}
+            className="px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-md hover:bg-slate-100"
+          >
+            Bỏ qua
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleConfirm}
+            className="px-4 py-2 text-sm font-medium text-green-700 bg-green-50 border border-green-200 rounded-md hover:bg-green-100"
+          >
+            Đúng, xác nhận
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Lưu sửa
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { SheetSummary } from '../utils/excelParser';
+
+interface SheetSelectorProps {
+  fileName: string;
+  sheets: SheetSummary[];
+  onConfirm: (sheetNames: string[]) => void;
+  onCancel: () => void;
+}
+
+export const SheetSelector: React.FC<SheetSelectorProps> = ({ fileName, sheets, onConfirm, onCancel }) => {
+  // Mặc định chọn tất cả sheet đã nhận diện được tiêu đề
+  const [selected, setSelected] = useState<Set<string>>(
+    new Set(sheets.filter(s => s.detected).map(s => s.name))
+  );
+
+  const toggle = (name: string) => {
+    const next = new Set(selected);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setSelected(next);
+  };
+
+  return (
+    <div className="w-full max-w-xl mx-auto p-6 bg-white rounded-xl shadow-md border border-slate-200">
+      <h3 className="text-lg font-semibold text-slate-800">Chọn sheet cần nhập</h3>
+      <p className="text-sm text-slate-500 mt-1 mb-4">
+        <span className="font-medium text-slate-700">{fileName}</span> có nhiều sheet sao kê. Các sheet được chọn sẽ gộp thành một bảng giao dịch.
+      </p>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {sheets.map(sheet => (
+          <label
+            key={sheet.name}
+            className={`flex items-center justify-between p-3 rounded-lg border transition-colors ${
+              !sheet.detected
+                ? 'border-slate-100 bg-slate-50 text-slate-400 cursor-not-allowed'
+                : selected.has(sheet.name)
+                  ? 'border-blue-300 bg-blue-50 cursor-pointer'
+                  : 'border-slate-200 hover:bg-slate-50 cursor-pointer'
+            }`}
+          >
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={selected.has(sheet.name)}
+                disabled={!sheet.detected}
+                onChange={() => toggle(sheet.name)}
+              />
+              <div>
+                <div className="font-medium text-sm text-slate-800">{sheet.name}</div>
+                <div className="text-xs text-slate-500">
+                  {sheet.rowCount} dòng
+                  {sheet.bankName && <> • {sheet.bankName}</>}
+                  {!sheet.detected && <> • Không nhận diện được tiêu đề</>}
+                </div>
+              </div>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-6 flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 text-sm text-slate-600 border border-slate-200 rounded-md hover:bg-slate-100">
+          Hủy
+        </button>
+        <button
+          onClick={() => onConfirm(sheets.filter(s => selected.has(s.name)).map(s => s.name))}
+          disabled={selected.size === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Nhập {selected.size} sheet
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Transaction } from '../types';
+import { renderPdfPagePreview } from '../services/geminiService';
+import { formatTransactionDate } from '../utils/dateUtils';
+import { formatMoney, getTransactionCurrency } from '../utils/currency';
+
+interface SourcePageViewerProps {
+  pdf: { content: string; password: string };
+  transaction: Transaction;
+  currency?: string;
+  onClose: () => void;
+}
+
+/**
+ * Khung bên phải hiển thị trang PDF gốc của giao dịch, tô sáng dòng giao dịch khi biết vị trí (trang đọc từ lớp văn bản)
+ */
+export const SourcePageViewer: React.FC<SourcePageViewerProps> = ({ pdf, transaction, currency, onClose }) => {
+  const page = transaction.source?.page;
+  const bbox = transaction.source?.bbox;
+  const [image, setImage] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  // Ảnh trang đã vẽ: chuyển qua lại giữa các dòng cùng trang không phải vẽ lại
+  const cacheRef = useRef<{ content: string; pages: Record<number, string> }>({ content: '', pages: {} });
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!page) return;
+    if (cacheRef.current.content !== pdf.content) cacheRef.current = { content: pdf.content, pages: {} };
+    const cached = cacheRef.current.pages[page];
+    setError('');
+    if (cached) {
+      setImage(cached);
+      return;
+    }
+
+    let cancelled = false;
+    setImage(null);
+    renderPdfPagePreview(pdf.content, page, pdf.password)
+      .then(url => {
+        cacheRef.current.pages[page] = url;
+        if (!cancelled) setImage(url);
+      })
+      .catch(err => {
+        console.error("Lỗi khi hiển thị trang PDF:", err);
+        if (!cancelled) setError(err.message || 'Không hiển thị được trang PDF.');
+      });
+    return () => { cancelled = true; };
+  }, [pdf, page]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [image, bbox]);
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full sm:w-[32rem] bg-white shadow-2xl z-40 flex flex-col border-l border-slate-200">
+      <div className="px-5 py-4 border-b border-slate-200 flex justify-between items-start bg-slate-50">
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold text-slate-800">{page ? `Trang ${page}` : 'Trang gốc'}</h2>
+          <p className="text-xs text-slate-500 mt-1 truncate" title={transaction.description}>
+            {formatTransactionDate(transaction)} •{' '}
+            <span className={transaction.type === 'CREDIT' ? 'text-green-600' : 'text-red-600'}>
+              {transaction.type === 'CREDIT' ? '+' : '-'}{formatMoney(transaction.amount, getTransactionCurrency(transaction, currency))}
+            </span>
+            {' '}• {transaction.description}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-3">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {page && !bbox && (
+        <div className="px-5 py-2 text-xs text-amber-700 bg-amber-50 border-b border-amber-100">
+          Trang này do AI đọc từ ảnh nên không xác định được vị trí dòng, hãy dò theo ngày và số tiền.
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 bg-slate-100">
+        {!page ? (
+          <p className="text-center text-sm text-slate-500 py-10">Giao dịch này không ghi nhận số trang trong file gốc.</p>
+        ) : error ? (
+          <p className="text-center text-sm text-red-600 py-10">{error}</p>
+        ) : !image ? (
+          <p className="text-center text-sm text-slate-500 py-10">Đang tải trang {page}...</p>
+        ) : (
+          <div className="relative shadow bg-white">
+            <img src={image} alt={`Trang ${page}`} className="block w-full" />
+            {bbox && (
+              <div
+                ref={highlightRef}
+                className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm pointer-events-none"
+                style={{
+                  left: `${bbox.x * 100}%`,
+                  top: `${bbox.y * 100}%`,
+                  width: `${bbox.width * 100}%`,
+                  height: `${bbox.height * 100}%`
+                }}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,16 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Transaction } from '../types';
+import { formatTransactionDate } from '../utils/dateUtils';
+import { formatMoney, formatAmount, getTransactionCurrency } from '../utils/currency';
+import { needsReview, CONFIDENCE_REASON_LABELS } from '../utils/confidence';
 
 interface TransactionTableProps {
   transactions: Transaction[];
+  currency?: string; // Loại tiền của sao kê (giao dịch không tự ghi loại tiền)
   onCategoryChange?: (index: number, newCategory: string) => void;
+  balanceIssues?: Set<Transaction>; // Các dòng có số dư lũy kế bị đứt
+  onRowClick?: (tx: Transaction) => void; // Mở trang gốc của giao dịch
+  selectedTransaction?: Transaction | null;
 }
 
 const DEFAULT_CATEGORIES = [
@@ -23,7 +30,7 @@ const DEFAULT_CATEGORIES = [
   "Khác"
 ];
 
-export const TransactionTable: React.FC<TransactionTableProps> = ({ transactions, onCategoryChange }) => {
+export const TransactionTable: React.FC<TransactionTableProps> = ({ transactions, currency, onCategoryChange, balanceIssues, onRowClick, selectedTransaction }) => {
   const [activeRow, setActiveRow] = useState<number | null>(null);
   const [dropdownPosition, setDropdownPosition] = useState<'top' | 'bottom'>('bottom');
   const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
@@ -39,6 +46,12 @@ export const TransactionTable: React.FC<TransactionTableProps> = ({ transactions
     return Array.from(currentCats).sort();
   }, [transactions]);
 
+  // Chỉ ghi chú sheet nguồn khi dữ liệu được gộp từ nhiều sheet
+  const showSheet = useMemo(() => new Set(transactions.map(tx => tx.source?.sheet).filter(Boolean)).size > 1, [transactions]);
+
+  // Chỉ hiện cột Số dư khi sao kê có dữ liệu số dư
+  const showBalance = useMemo(() => transactions.some(tx => typeof tx.balance === 'number'), [transactions]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -91,18 +104,48 @@ export const TransactionTable: React.FC<TransactionTableProps> = ({ transactions
               <th className="px-4 py-3 text-left font-medium text-slate-700 w-40">Phân loại</th>
               <th className="px-4 py-3 text-left font-medium text-slate-700 min-w-[200px]">Nội dung</th>
               <th className="px-4 py-3 text-right font-medium text-slate-700 whitespace-nowrap w-32">Số tiền</th>
+              {showBalance && <th className="px-4 py-3 text-right font-medium text-slate-700 whitespace-nowrap w-32">Số dư</th>}
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-200">
-            {transactions.map((tx, index) => (
-              <tr key={index} className="hover:bg-slate-50 transition-colors">
-                <td className="px-4 py-3 text-slate-600 whitespace-nowrap align-top">{tx.date}</td>
+            {transactions.map((tx, index) => {
+              const isBalanceBroken = balanceIssues?.has(tx) ?? false;
+              const isSelected = selectedTransaction === tx;
+              return (
+              <tr
+                key={index}
+                onClick={onRowClick ? () => onRowClick(tx) : undefined}
+                title={onRowClick ? 'Nhấn để xem dòng này trong file gốc' : undefined}
+                className={`transition-colors ${onRowClick ? 'cursor-pointer' : ''} ${isSelected ? 'bg-blue-50 hover:bg-blue-100' : isBalanceBroken ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-slate-50'}`}
+              >
+                <td className="px-4 py-3 text-slate-600 whitespace-nowrap align-top">
+                  {formatTransactionDate(tx)}
+                  {tx.time && <span className="text-[10px] text-slate-400 ml-1">{tx.time}</span>}
+                  {tx.date_invalid && (
+                    <div className="text-[10px] text-red-600 mt-0.5" title="Không đọc được ngày, cần kiểm tra lại">⚠ Ngày không hợp lệ</div>
+                  )}
+                  {needsReview(tx) && (
+                    <div
+                      className="text-[10px] text-amber-700 mt-0.5"
+                      title={(tx.confidence_reasons || []).map(r => CONFIDENCE_REASON_LABELS[r]).join('\n')}
+                    >
+                      ⚠ Tin cậy {Math.round((tx.confidence ?? 0) * 100)}%
+                    </div>
+                  )}
+                  {showSheet && tx.source?.sheet && <div className="text-[10px] text-slate-400 mt-0.5" title="Sheet nguồn">{tx.source.sheet}</div>}
+                </td>
                 <td className="px-4 py-3 text-slate-500 whitespace-nowrap text-xs font-mono align-top pt-3.5" title={tx.transaction_code}>{tx.transaction_code ? tx.transaction_code.slice(0,12) + (tx.transaction_code.length > 12 ? '...' : '') : '-'}</td>
                 <td className="px-4 py-3 text-slate-800 font-medium align-top">
                   <div className="break-words line-clamp-2" title={tx.partner_name}>{tx.partner_name || 'Không xác định'}</div>
-                  {tx.partner_account && <div className="text-xs text-slate-500 font-mono mt-1">{tx.partner_account}</div>}
+                  {(tx.partner_account || tx.partner_bank) && (
+                    <div className="text-xs text-slate-500 font-mono mt-1">
+                      {tx.partner_account}
+                      {tx.partner_bank && <span className="font-sans ml-1 text-slate-400">{tx.partner_account ? '· ' : ''}{tx.partner_bank}</span>}
+                    </div>
+                  )}
                 </td>
-                <td className="px-4 py-3 relative align-top">
+                {/* Chọn phân loại không mở trang gốc */}
+                <td className="px-4 py-3 relative align-top" onClick={(e) => e.stopPropagation()}>
                   <button
                     ref={(el) => { buttonRefs.current[index] = el; }}
                     onClick={() => handleCategoryClick(index)}
@@ -162,10 +205,20 @@ export const TransactionTable: React.FC<TransactionTableProps> = ({ transactions
                   <div className="line-clamp-2 text-xs" title={tx.description}>{tx.description}</div>
                 </td>
                 <td className={`px-4 py-3 text-right font-bold whitespace-nowrap align-top ${tx.type === 'CREDIT' ? 'text-green-600' : 'text-red-600'}`}>
-                  {tx.type === 'CREDIT' ? '+' : '-'}{new Intl.NumberFormat('vi-VN').format(tx.amount)}
+                  {tx.type === 'CREDIT' ? '+' : '-'}{formatMoney(tx.amount, getTransactionCurrency(tx, currency))}
                 </td>
+                {showBalance && (
+                  <td
+                    className={`px-4 py-3 text-right whitespace-nowrap align-top ${isBalanceBroken ? 'text-red-700 font-semibold' : 'text-slate-500'}`}
+                    title={isBalanceBroken ? 'Số dư không khớp với dòng trước - có thể thiếu hoặc sai giao dịch' : undefined}
+                  >
+                    {isBalanceBroken && <span className="mr-1">⚠</span>}
+                    {typeof tx.balance === 'number' ? formatAmount(tx.balance, getTransactionCurrency(tx, currency)) : '-'}
+                  </td>
+                )}
               </tr>
-            ))}
+              );
+            })}
           </tbody>
         </table>
         {transactions.length === 0 && (
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ModelPrice, getUsageLog, clearUsageLog, getModelPrices, saveModelPrices, summarizeUsageByMonth, formatUsd
+} from '../utils/aiUsage';
+
+/**
+ * Chi phí AI cộng dồn theo tháng (từ nhật ký chi phí) kèm bảng giá model chỉnh được
+ */
+export const UsageHistoryPanel: React.FC = () => {
+  const [log, setLog] = useState(() => getUsageLog());
+  const [prices, setPrices] = useState<ModelPrice[]>(() => getModelPrices());
+  const [showPrices, setShowPrices] = useState(false);
+
+  const months = useMemo(() => summarizeUsageByMonth(log, prices), [log, prices]);
+  // Model đã dùng nhưng chưa có trong bảng giá
+  const unpricedModels = useMemo(() => Array.from(new Set(months.flatMap(m => m.unpricedModels))), [months]);
+
+  const updatePrices = (next: ModelPrice[]) => {
+    setPrices(next);
+    saveModelPrices(next);
+  };
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) => {
+    updatePrices(prices.map((price, i) => (i === index ? { ...price, ...patch } : price)));
+  };
+
+  const handleClearLog = () => {
+    if (window.confirm('Xóa toàn bộ nhật ký chi phí AI? Chi phí lưu kèm từng sao kê vẫn được giữ.')) {
+      clearUsageLog();
+      setLog([]);
+    }
+  };
+
+  const inputClass = 'w-full rounded border border-slate-300 px-1.5 py-1 text-xs';
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-slate-200 bg-slate-50 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-slate-700">Chi phí AI theo tháng</h3>
+        <button onClick={() => setShowPrices(!showPrices)} className="text-xs text-blue-600 hover:underline">
+          {showPrices ? 'Ẩn bảng giá' : 'Bảng giá'}
+        </button>
+      </div>
+
+      {months.length === 0 ? (
+        <p className="text-xs text-slate-500 mt-2">Chưa có lượt phân tích nào gọi AI.</p>
+      ) : (
+        <table className="w-full mt-2 text-xs">
+          <thead>
+            <tr className="text-slate-400">
+              <th className="text-left font-medium py-1">Tháng</th>
+              <th className="text-right font-medium py-1">Request</th>
+              <th className="text-right font-medium py-1">Token</th>
+              <th className="text-right font-medium py-1">Chi phí</th>
+            </tr>
+          </thead>
+          <tbody>
+            {months.map(month => (
+              <tr key={month.month} className="border-t border-slate-200 text-slate-700">
+                <td className="py-1">{month.month.split('-').reverse().join('/')}</td>
+                <td className="py-1 text-right">{month.requests}</td>
+                <td className="py-1 text-right" title={`${month.inputTokens.toLocaleString('vi-VN')} vào / ${month.outputTokens.toLocaleString('vi-VN')} ra`}>
+                  {(month.inputTokens + month.outputTokens).toLocaleString('vi-VN')}
+                </td>
+                <td className="py-1 text-right font-medium">
+                  {formatUsd(month.cost)}
+                  {month.unpricedModels.length > 0 && <span className="text-amber-600" title="Có model chưa có giá, chưa tính vào tổng">*</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {unpricedModels.length > 0 && (
+        <p className="text-[10px] text-amber-700 mt-1">* Chưa có giá cho: {unpricedModels.join(', ')}</p>
+      )}
+
+      {showPrices && (
+        <div className="mt-3 pt-3 border-t border-slate-200 space-y-2">
+          <p className="text-[10px] text-slate-500">USD cho 1 triệu token. Tên model phải trùng với model trong cấu hình AI.</p>
+          <div className="grid grid-cols-[1fr_4rem_4rem_1rem] gap-1 items-center text-[10px] text-slate-400">
+            <span>Model</span>
+            <span>Vào</span>
+            <span>Ra</span>
+            <span />
+            {prices.map((price, index) => (
+              <React.Fragment key={index}>
+                <input value={price.model} onChange={(e) => updatePrice(index, { model: e.target.value })} className={inputClass} />
+                <input
+                  type="number" min={0} step={0.01} value={price.inputPerMillion}
+                  onChange={(e) => updatePrice(index, { inputPerMillion: Math.max(0, Number(e.target.value) || 0) })}
+                  className={inputClass}
+                />
+                <input
+                  type="number" min={0} step={0.01} value={price.outputPerMillion}
+                  onChange={(e) => updatePrice(index, { outputPerMillion: Math.max(0, Number(e.target.value) || 0) })}
+                  className={inputClass}
+                />
+                <button onClick={() => updatePrices(prices.filter((_, i) => i !== index))} className="text-slate-400 hover:text-red-500" title="Xóa">
+                  ×
+                </button>
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="flex justify-between">
+            <button
+              onClick={() => updatePrices([...prices, { model: unpricedModels[0] || '', inputPerMillion: 0, outputPerMillion: 0 }])}
+              className="text-xs text-blue-600 hover:underline"
+            >
+              + Thêm model
+            </button>
+            <button onClick={handleClearLog} disabled={log.length === 0} className="text-xs text-red-600 hover:underline disabled:opacity-50">
+              Xóa nhật ký
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { AiUsage } from "../types";
+import { ProviderSettings, MockRecording } from "../utils/providerSettings";
+import { createAbortError, isAbortError, throwIfAborted } from "../utils/analysisControl";
+
+/**
+ * Yêu cầu trích xuất một nhóm trang: ảnh trang + prompt + schema JSON mong muốn
+ */
+export interface PageExtractionRequest {
+  pages: number[];  // Số trang (1-based), provider mock dùng làm khóa phát lại
+  images: string[]; // Ảnh JPEG base64 của từng trang
+  prompt: string;
+  schema: any;      // Schema theo định dạng của @google/genai (Type.OBJECT...)
+  signal?: AbortSignal; // Hủy request đang gửi khi người dùng bấm Hủy
+}
+
+/**
+ * Phản hồi thô (chuỗi JSON theo schema) kèm lượng dùng của request; provider mock không tính phí nên không có usage
+ */
+export interface PageExtractionResult {
+  text: string;
+  usage?: AiUsage;
+}
+
+/**
+ * Lớp AI đọc ảnh trang sao kê
+ */
+export interface ExtractionProvider {
+  name: string;
+  extractPages: (request: PageExtractionRequest) => Promise<PageExtractionResult>;
+}
+
+// Helper: Wait function (dừng sớm khi bị hủy)
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Request lỗi vẫn có thể bị tính phí: gắn số lần gọi và thời gian đã chờ vào lỗi để nơi gọi ghi vào chi phí.
+ * Phản hồi lỗi không báo số token nên token tính là 0.
+ */
+const attachUsage = (error: any, attempt: number, startedAt: number) => {
+  const usage: AiUsage = { requests: 1, retries: attempt, inputTokens: 0, outputTokens: 0, latencyMs: Date.now() - startedAt };
+  if (error && typeof error === 'object') error.usage = usage;
+  return error;
+};
+
+/**
+ * Retry wrapper cho các lời gọi AI để xử lý rate limit (429) và lỗi server tạm thời (503)
+ *
+ * @param retries Số lần thử lại còn lại
+ * @param attempt Số lần đã thử lại (tính thời gian chờ)
+ * @param startedAt Thời điểm gọi lần đầu
+ * @returns Kết quả kèm số lần đã phải thử lại; lỗi cuối cùng mang theo `usage` của các lần đã gọi
+ */
+const withRetry = async <T>(
+  call: () => Promise<T>,
+  signal: AbortSignal | undefined,
+  retries: number,
+  attempt = 0,
+  startedAt = Date.now()
+): Promise<{ value: T; retries: number }> => {
+  throwIfAborted(signal);
+  try {
+    return { value: await call(), retries: attempt };
+  } catch (error: any) {
+    // Request bị hủy giữa chừng: không retry
+    if (signal?.aborted || isAbortError(error)) throw attachUsage(createAbortError(), attempt, startedAt);
+
+    // Robust check for 429 errors (API structure can vary)
+    const isRateLimit =
+      error.status === 429 ||
+      error.code === 429 ||
+      (error.message && (error.message.includes('429') || error.message.includes('quota') || error.message.includes('RESOURCE_EXHAUSTED'))) ||
+      (error.error && error.error.code === 429); // If error object is the JSON body
+
+    if (retries > 0 && (isRateLimit || error.status === 503)) {
+      // Exponential backoff: 2s, 4s, 8s... (+ ngẫu nhiên tới 1s)
+      const backoffFactor = Math.pow(2, attempt + 1);
+      const delay = backoffFactor * 1000 + Math.random() * 1000;
+
+      console.warn(`Rate limit hit (429). Retrying in ${Math.round(delay)}ms... (${retries} retries left)`);
+      try {
+        await wait(delay, signal);
+      } catch (abortError) {
+        throw attachUsage(abortError, attempt, startedAt);
+      }
+      return withRetry(call, signal, retries - 1, attempt + 1, startedAt);
+    }
+    throw attachUsage(error, attempt, startedAt);
+  }
+};
+
+/**
+ * Chuyển schema của @google/genai (type viết hoa: OBJECT, STRING...) sang JSON Schema chuẩn
+ */
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: any = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    result[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value);
+  });
+  return result;
+};
+
+const createGeminiProvider = (settings: ProviderSettings): ExtractionProvider => {
+  const apiKey = settings.apiKey || process.env.API_KEY;
+  if (!apiKey) throw new Error("API Key không tìm thấy.");
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: `Gemini (${settings.model})`,
+    extractPages: async ({ images, prompt, schema, signal }) => {
+      const startedAt = Date.now();
+      const { value: response, retries } = await withRetry(() => ai.models.generateContent({
+        model: settings.model,
+        contents: {
+          parts: [
+            ...images.map(data => ({ inlineData: { mimeType: "image/jpeg", data } })),
+            { text: prompt }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema as Schema,
+          abortSignal: signal,
+        }
+      }), signal, settings.maxRetries);
+      const meta: any = response.usageMetadata || {};
+      return {
+        text: response.text || '',
+        usage: {
+          requests: 1,
+          retries,
+          inputTokens: meta.promptTokenCount || 0,
+          // Model 2.5 tính token suy luận theo giá token đầu ra
+          outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+          latencyMs: Date.now() - startedAt
+        }
+      };
+    }
+  };
+};
+
+/**
+ * Server tương thích OpenAI Chat Completions (vLLM, Ollama, LM Studio, OpenAI...) - cho phép tự host model
+ */
+const createOpenAICompatibleProvider = (settings: ProviderSettings): ExtractionProvider => {
+  if (!settings.endpoint) throw new Error("Chưa cấu hình địa chỉ server AI tương thích OpenAI.");
+  const url = `${settings.endpoint.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: `OpenAI-compatible (${settings.model})`,
+    extractPages: async ({ images, prompt, schema, signal }) => {
+      const startedAt = Date.now();
+      const { value: body, retries } = await withRetry(async () => {
+        const response = await fetch(url, {
+          method: 'POST',
+          signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            temperature: 0,
+            messages: [{
+              role: 'user',
+              content: [
+                ...images.map(data => ({ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${data}` } })),
+                { type: 'text', text: prompt }
+              ]
+            }],
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'statement_page', schema: toJsonSchema(schema) }
+            }
+          })
+        });
+
+        if (!response.ok) {
+          const error: any = new Error(`Server AI trả về lỗi ${response.status}: ${await response.text()}`);
+          error.status = response.status;
+          throw error;
+        }
+
+        return response.json();
+      }, signal, settings.maxRetries);
+      return {
+        text: body.choices?.[0]?.message?.content || '',
+        usage: {
+          requests: 1,
+          retries,
+          inputTokens: body.usage?.prompt_tokens || 0,
+          outputTokens: body.usage?.completion_tokens || 0,
+          latencyMs: Date.now() - startedAt
+        }
+      };
+    }
+  };
+};
+
+/**
+ * Phát lại phản hồi đã ghi của file đang phân tích (theo số trang) - kết quả cố định, không gọi mạng
+ */
+const createMockProvider = (recording: MockRecording): ExtractionProvider => ({
+  name: 'Mock (phát lại)',
+  extractPages: async ({ pages, signal }) => {
+    throwIfAborted(signal);
+    const key = String(pages[0]);
+    if (recording[key] === undefined) {
+      throw new Error(`Không có phản hồi ghi sẵn cho trang ${key}.`);
+    }
+    return { text: recording[key] };
+  }
+});
+
+export const createExtractionProvider = (settings: ProviderSettings, recording: MockRecording = {}): ExtractionProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider(recording);
+    default:
+      return createGeminiProvider(settings);
+  }
+};
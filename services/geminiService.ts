@@ -1,6 +1,21 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { StatementData, Transaction } from "../types";
+import { Type } from "@google/genai";
+import { StatementData, Transaction, PageReport, AiUsage, UsageRecord } from "../types";
 import * as pdfjsLib from 'pdfjs-dist';
+import { extractTextLayerPage, TextLayerLayout } from "../utils/pdfTextLayer";
+import { collectTextLayerEvidence, collectClaimedAmounts, verifyWithTextLayer, TextLayerEvidence } from "../utils/textLayerVerification";
+import { createExtractionProvider, ExtractionProvider, wait } from "./extractionProviders";
+import { ProviderSettings, MockRecording, getProviderSettings, getMockRecording, saveMockRecording, toSettingsSnapshot } from "../utils/providerSettings";
+import { hashBytes, getCachedPages, saveCachedPage } from "../utils/pageCache";
+import { normalizeCategories } from "../utils/categories";
+import { splitUsage, sumUsage, appendUsageLog } from "../utils/aiUsage";
+import { mergePageTransactions } from "../utils/pageBoundary";
+import { getRememberedPdfPasswords } from "../utils/pdfPasswords";
+import { normalizeTransactionDates } from "../utils/dateUtils";
+import { normalizeCurrencyCode } from "../utils/currency";
+import { enrichPartnerDetails } from "../utils/descriptionParser";
+import { addConfidenceReasons, dateConfidenceReason } from "../utils/confidence";
+import { AnalysisControl, createAbortError, isAbortError, throwIfAborted } from "../utils/analysisControl";
+import { PdfPageRenderer, canRenderInWorker, createPdfPageRenderer } from "../utils/pdfRenderClient";
 
 // Xử lý sự khác biệt giữa các bản build của PDF.js trên CDN (ESM vs CommonJS wrapper)
 const pdfJs = (pdfjsLib as any).default || pdfjsLib;
@@ -13,34 +28,21 @@ if (GlobalWorkerOptions) {
   GlobalWorkerOptions.workerSrc = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/build/pdf.worker.min.js';
 }
 
-// Helper: Wait function
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Ảnh xem trang gốc: đủ nét để đọc số trên màn hình, nhẹ hơn nhiều so với ảnh gửi AI
+const PREVIEW_RENDER_SCALE = 1.5;
+const PREVIEW_JPEG_QUALITY = 0.9;
 
-// Helper: Retry wrapper for AI calls to handle rate limits (429)
-const generateWithRetry = async (ai: any, params: any, retries = 5): Promise<any> => {
-  try {
-    return await ai.models.generateContent(params);
-  } catch (error: any) {
-    // Robust check for 429 errors (API structure can vary)
-    const isRateLimit = 
-      error.status === 429 || 
-      error.code === 429 ||
-      (error.message && (error.message.includes('429') || error.message.includes('quota') || error.message.includes('RESOURCE_EXHAUSTED'))) ||
-      (error.error && error.error.code === 429); // If error object is the JSON body
-
-    // Nếu lỗi 429 (Too Many Requests) hoặc lỗi server tạm thời (503), thử lại với exponential backoff
-    if (retries > 0 && (isRateLimit || error.status === 503)) {
-      // Exponential backoff: Base 2s * 2^(5-retries). 
-      const backoffFactor = Math.pow(2, 6 - retries);
-      const delay = backoffFactor * 1000 + Math.random() * 1000; 
-      
-      console.warn(`Rate limit hit (429). Retrying in ${Math.round(delay)}ms... (${retries} retries left)`);
-      await wait(delay);
-      return generateWithRetry(ai, params, retries - 1);
-    }
-    throw error;
-  }
-};
+// Mã lỗi PasswordException của pdf.js (PasswordResponses)
+const PDF_INCORRECT_PASSWORD = 2;
+
+// Trang đọc từ lớp văn bản có độ tin cậy thấp hơn ngưỡng này sẽ được gửi cho AI đọc lại từ ảnh
+const TEXT_LAYER_MIN_CONFIDENCE = 0.9;
+
+// Phiên bản prompt + schema. Tăng khi đổi prompt để không dùng lại kết quả cache của prompt cũ.
+const PROMPT_VERSION = 'v7';
+
+// Điểm tin cậy mặc định của dòng AI đọc khi phản hồi không có trường 'conf'
+const AI_DEFAULT_CONFIDENCE = 0.9;
 
 // Schema tối ưu cho Transaction - Cập nhật logic tách cột Credit/Debit
 const transactionSchema = {
@@ -48,13 +50,16 @@ const transactionSchema = {
   properties: {
     d: { type: Type.STRING, description: "Date (DD/MM/YYYY)" },
     // Thay vì hỏi type và amount, hỏi riêng 2 cột để AI buộc phải nhìn đúng vị trí
-    c_amt: { type: Type.NUMBER, description: "Credit Amount/Tiền vào (Positive Integer). NO separators." },
-    d_amt: { type: Type.NUMBER, description: "Debit Amount/Tiền ra (Positive Integer). NO separators." },
+    c_amt: { type: Type.NUMBER, description: "Credit Amount/Tiền vào (Positive). NO thousand separators; keep decimals for non-VND currencies." },
+    d_amt: { type: Type.NUMBER, description: "Debit Amount/Tiền ra (Positive). NO thousand separators; keep decimals for non-VND currencies." },
     desc: { type: Type.STRING, description: "Full Description content" },
     code: { type: Type.STRING, description: "Transaction Code" },
     pn: { type: Type.STRING, description: "Partner Name (Sender/Receiver). Not numbers." },
     pa: { type: Type.STRING, description: "Partner Account" },
-    cat: { type: Type.STRING, description: "Category in Vietnamese" }
+    cat: { type: Type.STRING, description: "Category in Vietnamese" },
+    bal: { type: Type.NUMBER, description: "Running Balance/Số dư after this row, if the table has a balance column. NO separators." },
+    pg: { type: Type.NUMBER, description: "Page number (as listed in the prompt) this row is printed on" },
+    conf: { type: Type.NUMBER, description: "Your confidence (0-1) that every field of this row was read correctly" }
   },
   required: ["d", "desc"] // Amount fields are optional but logic handles them
 };
@@ -66,6 +71,10 @@ const fullSchema = {
     bank: { type: Type.STRING },
     holder: { type: Type.STRING },
     period: { type: Type.STRING },
+    cur: { type: Type.STRING, description: "Account currency ISO code (VND, USD, EUR...)" },
+    ob: { type: Type.NUMBER, description: "Opening balance/Số dư đầu kỳ, if printed" },
+    cb: { type: Type.NUMBER, description: "Closing balance/Số dư cuối kỳ, if printed" },
+    n: { type: Type.NUMBER, description: "Number of transaction rows visible in the table (excluding header, opening/closing and carry-over rows)" },
     txs: { type: Type.ARRAY, items: transactionSchema }
   },
   required: ["txs"]
@@ -75,18 +84,69 @@ const fullSchema = {
 const listSchema = {
   type: Type.OBJECT,
   properties: {
+    // Số dư cuối kỳ thường nằm ở trang cuối
+    cb: { type: Type.NUMBER, description: "Closing balance/Số dư cuối kỳ, if printed on this page" },
+    n: { type: Type.NUMBER, description: "Number of transaction rows visible in the table (excluding header, opening/closing and carry-over rows)" },
     txs: { type: Type.ARRAY, items: transactionSchema }
   },
   required: ["txs"]
 };
 
 /**
- * Chuyển đổi một trang PDF thành hình ảnh Base64
+ * PDF được mã hóa (ngân hàng thường đặt mật khẩu là số CCCD hoặc ngày sinh): cần hỏi mật khẩu người dùng
+ */
+export class PdfPasswordRequiredError extends Error {
+  isIncorrect: boolean;
+
+  constructor(isIncorrect: boolean) {
+    super(isIncorrect ? "Mật khẩu PDF không đúng." : "File PDF được bảo vệ bằng mật khẩu.");
+    this.name = 'PdfPasswordRequiredError';
+    this.isIncorrect = isIncorrect;
+  }
+}
+
+const openPdfDocument = async (binaryPdf: string, password?: string): Promise<any> => {
+  try {
+    return await getDocument({ data: binaryPdf, password }).promise;
+  } catch (err: any) {
+    if (err?.name === 'PasswordException') {
+      throw new PdfPasswordRequiredError(err.code === PDF_INCORRECT_PASSWORD);
+    }
+    throw err;
+  }
+};
+
+/**
+ * Tìm mật khẩu mở được PDF: mật khẩu người dùng vừa nhập, hoặc (khi chưa nhập) không mật khẩu rồi tới các mật khẩu đã nhớ trong phiên.
+ *
+ * @returns Mật khẩu dùng được, chuỗi rỗng nếu file không mã hóa
+ * @throws PdfPasswordRequiredError khi không mật khẩu nào mở được
  */
-const renderPageToImage = async (pdfDoc: any, pageNum: number): Promise<string> => {
+export const resolvePdfPassword = async (base64Pdf: string, password?: string): Promise<string> => {
+  if (!getDocument) throw new Error("Lỗi tải thư viện PDF.js. Vui lòng tải lại trang.");
+
+  const binaryPdf = atob(base64Pdf);
+  const candidates = password !== undefined ? [password] : ['', ...getRememberedPdfPasswords()];
+
+  for (const candidate of candidates) {
+    try {
+      const pdfDoc = await openPdfDocument(binaryPdf, candidate || undefined);
+      await pdfDoc.destroy();
+      return candidate;
+    } catch (err) {
+      if (!(err instanceof PdfPasswordRequiredError)) throw err;
+    }
+  }
+  throw new PdfPasswordRequiredError(password !== undefined);
+};
+
+/**
+ * Chuyển đổi một trang PDF thành hình ảnh Base64 ngay trên main thread (dùng khi không vẽ được trong worker)
+ */
+const renderPageToImage = async (pdfDoc: any, pageNum: number, signal: AbortSignal | undefined, scale: number, quality: number): Promise<string> => {
+  throwIfAborted(signal);
   const page = await pdfDoc.getPage(pageNum);
-  // Tăng scale lên 3.0 (Ultra High Res) để nhìn rõ số 0, 6, 8, 9 và các nét mờ
-  const viewport = page.getViewport({ scale: 3.0 });
+  const viewport = page.getViewport({ scale });
   
   const canvas = document.createElement('canvas');
   const context = canvas.getContext('2d');
@@ -95,9 +155,22 @@ const renderPageToImage = async (pdfDoc: any, pageNum: number): Promise<string>
 
   if (!context) throw new Error("Canvas context error");
 
-  await page.render({ canvasContext: context, viewport: viewport }).promise;
+  // Hủy giữa lúc render trang lớn (scale 3.0 có thể mất vài giây)
+  const renderTask = page.render({ canvasContext: context, viewport: viewport });
+  const onAbort = () => renderTask.cancel();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    await renderTask.promise;
+  } catch (err) {
+    canvas.width = 0;
+    canvas.height = 0;
+    if (signal?.aborted) throw createAbortError();
+    throw err;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
   
-  const dataUrl = canvas.toDataURL('image/jpeg', 0.9); // Chất lượng cao
+  const dataUrl = canvas.toDataURL('image/jpeg', quality);
   // Dọn dẹp memory
   canvas.width = 0; 
   canvas.height = 0;
@@ -106,173 +179,297 @@ const renderPageToImage = async (pdfDoc: any, pageNum: number): Promise<string>
 };
 
 /**
- * Cải thiện phân loại dựa trên patterns của các giao dịch tương tự và từ khóa
- * Exported để dùng chung cho Excel Parser
+ * Ảnh một trang PDF để người dùng đối chiếu giao dịch với trang gốc
+ *
+ * @returns Data URL (JPEG)
  */
-export const normalizeCategories = (transactions: Transaction[]): Transaction[] => {
-  // 1. Xây dựng map "Partner Name" -> "Category phổ biến nhất" từ dữ liệu đã có
-  const partnerMap: Record<string, Record<string, number>> = {};
-
-  transactions.forEach(tx => {
-    // Chỉ học từ những giao dịch có category rõ ràng (không phải null, rỗng hoặc 'Khác')
-    if (tx.category && tx.category !== 'Khác' && tx.partner_name && tx.partner_name.length > 2) {
-      const key = tx.partner_name.trim().toUpperCase();
-      if (!partnerMap[key]) partnerMap[key] = {};
-      partnerMap[key][tx.category] = (partnerMap[key][tx.category] || 0) + 1;
-    }
-  });
+export const renderPdfPagePreview = async (base64Pdf: string, pageNum: number, password?: string): Promise<string> => {
+  if (!getDocument) throw new Error("Lỗi tải thư viện PDF.js. Vui lòng tải lại trang.");
 
-  // Tìm category chiến thắng cho mỗi partner
-  const bestCategoryMap: Record<string, string> = {};
-  Object.keys(partnerMap).forEach(partner => {
-    const categories = partnerMap[partner];
-    let bestCat = '';
-    let maxCount = -1;
-    
-    Object.entries(categories).forEach(([cat, count]) => {
-      if (count > maxCount) {
-        maxCount = count;
-        bestCat = cat;
+  const binaryPdf = atob(base64Pdf);
+  const pdfDoc = await openPdfDocument(binaryPdf, password || undefined);
+  try {
+    if (pageNum < 1 || pageNum > pdfDoc.numPages) throw new Error(`File PDF không có trang ${pageNum}.`);
+    if (canRenderInWorker()) {
+      const renderer = createPdfPageRenderer(Uint8Array.from(binaryPdf, c => c.charCodeAt(0)), password || undefined, GlobalWorkerOptions.workerSrc);
+      try {
+        return `data:image/jpeg;base64,${await renderer.render(pageNum, PREVIEW_RENDER_SCALE, PREVIEW_JPEG_QUALITY)}`;
+      } catch (err) {
+        console.warn("Không vẽ được trang trong worker, chuyển sang main thread:", err);
+      } finally {
+        renderer.destroy();
       }
-    });
-    bestCategoryMap[partner] = bestCat;
-  });
+    }
+    return `data:image/jpeg;base64,${await renderPageToImage(pdfDoc, pageNum, undefined, PREVIEW_RENDER_SCALE, PREVIEW_JPEG_QUALITY)}`;
+  } finally {
+    await pdfDoc.destroy();
+  }
+};
 
-  // 2. Điền category cho các giao dịch thiếu hoặc 'Khác'
-  return transactions.map(tx => {
-    let newCategory = tx.category;
-    const desc = (tx.description || '').toUpperCase();
-    const partner = (tx.partner_name || '').trim().toUpperCase();
+/**
+ * Chuyển giao dịch AI trả về (schema rút gọn) sang Transaction
+ */
+const mapAiTransaction = (tx: any): Transaction => {
+  // Logic xác định Type và Amount chính xác từ 2 cột c_amt và d_amt
+  let amount = 0;
+  let type: 'CREDIT' | 'DEBIT' = 'CREDIT';
+
+  const c = Number(tx.c_amt) || 0;
+  const d = Number(tx.d_amt) || 0;
+
+  if (d > 0) {
+    amount = d;
+    type = 'DEBIT';
+  } else if (c > 0) {
+    amount = c;
+    type = 'CREDIT';
+  } else if (tx.a) { 
+    // Fallback nếu AI đời cũ vẫn trả về 'a' và 't'
+    amount = Number(tx.a);
+    type = tx.t === 'D' ? 'DEBIT' : 'CREDIT';
+  }
 
-    // Nếu category chưa tốt
-    if (!newCategory || newCategory === 'Khác') {
-      
-      // A. Thử tìm theo Partner Name đã học được
-      if (partner && bestCategoryMap[partner]) {
-        newCategory = bestCategoryMap[partner];
-      }
+  return {
+    date: tx.d,
+    amount: amount,
+    type: type,
+    description: tx.desc,
+    transaction_code: tx.code,
+    partner_name: tx.pn,
+    partner_account: tx.pa,
+    category: tx.cat,
+    balance: typeof tx.bal === 'number' ? tx.bal : undefined,
+    // Điểm AI tự đánh giá làm gốc; phản hồi cũ không có điểm thì coi là khá chắc chắn
+    confidence: typeof tx.conf === 'number' ? Math.min(1, Math.max(0, tx.conf)) : AI_DEFAULT_CONFIDENCE,
+    confidence_reasons: ['AI_SELF_REPORTED']
+  };
+};
 
-      // B. Nếu vẫn chưa có, dùng bộ quy tắc từ khóa (Heuristics) - Đã nâng cấp
-      if (!newCategory || newCategory === 'Khác') {
-        // DI CHUYỂN
-        if (desc.includes('GRAB') || desc.includes('BE GROUP') || desc.includes('GOJEK') || desc.includes('XANH SM') || desc.includes('UBER') || desc.includes('XANG') || desc.includes('PETROLIMEX') || desc.includes('VETC') || desc.includes('EPASS') || desc.includes('PARKING') || desc.includes('GUI XE')) {
-          newCategory = 'Di chuyển';
-        
-        // MUA SẮM
-        } else if (desc.includes('SHOPEE') || desc.includes('LAZADA') || desc.includes('TIKI') || desc.includes('TIKTOK') || desc.includes('PAYMENT') || desc.includes('APPLE.COM') || desc.includes('GOOGLE') || desc.includes('FACEBOOK') || desc.includes('ZALOPAY') || desc.includes('MOCA') || desc.includes('VNPAY') || desc.includes('POS') || desc.includes('SIEU THI') || desc.includes('MART') || desc.includes('CONVENIENCE')) {
-          newCategory = 'Mua sắm';
-        } else if (desc.includes('WINMART') || desc.includes('CIRCLE K') || desc.includes('GS25') || desc.includes('7-ELEVEN') || desc.includes('CO.OP') || desc.includes('MINISTOP') || desc.includes('TOP MARKET') || desc.includes('AEON') || desc.includes('UNIQLO')) {
-          newCategory = 'Mua sắm';
-        
-        // ĂN UỐNG
-        } else if (desc.includes('HIGHLANDS') || desc.includes('STARBUCKS') || desc.includes('PHUC LONG') || desc.includes('KFC') || desc.includes('MCDONALD') || desc.includes('LOTTERIA') || desc.includes('NHA HANG') || desc.includes('COFFEE') || desc.includes('CA PHE') || desc.includes('QUAN') || desc.includes('FOOD') || desc.includes('BAEMIN') || desc.includes('PIZZA') || desc.includes('BBQ')) {
-          newCategory = 'Ăn uống';
-        
-        // ĐIỆN NƯỚC NET - Cập nhật logic: Bao gồm cả 'TIEN MUA DIEN'
-        } else if (desc.includes('DIEN LUC') || desc.includes('EVN') || desc.includes('NUOC') || desc.includes('INTERNET') || desc.includes('VNPT') || desc.includes('FPT') || desc.includes('VIETTEL') || desc.includes('MOBIFONE') || desc.includes('VINAPHONE') || desc.includes('TELECOM') || desc.includes('TIEN DIEN') || desc.includes('TIEN MUA DIEN') || desc.includes('MUA DIEN')) {
-          newCategory = 'Điện/Nước/Net';
-        
-        // PHÍ NGÂN HÀNG
-        } else if (desc.includes('PHI') && (desc.includes('SMS') || desc.includes('DICH VU') || desc.includes('QLTK') || desc.includes('THUONG NIEN') || desc.includes('CHUYEN TIEN') || desc.includes('GIAO DICH') || desc.includes('VAT'))) {
-          newCategory = 'Phí ngân hàng';
-        
-        // ĐẦU TƯ
-        } else if (desc.includes('LAI TIEU DUNG') || desc.includes('TIET KIEM') || desc.includes('LAI NHAP GOC') || desc.includes('CHUNG KHOAN') || desc.includes('VPS') || desc.includes('TCBS') || desc.includes('VNDIRECT') || desc.includes('SSI') || desc.includes('DIGITAL ASSET') || desc.includes('INVEST')) {
-          newCategory = 'Đầu tư';
-        
-        // LƯƠNG THƯỞNG
-        } else if (desc.includes('LUONG') || desc.includes('SALARY') || desc.includes('THUONG') || desc.includes('INCOME') || desc.includes('PAYROLL')) {
-          newCategory = 'Lương/Thưởng';
-
-        // GIÁO DỤC
-        } else if (desc.includes('HOC PHI') || desc.includes('SCHOOL') || desc.includes('EDUCATION') || desc.includes('TUITION') || desc.includes('DAI HOC') || desc.includes('TIEU HOC') || desc.includes('MAM NON') || desc.includes('KHOA HOC')) {
-          newCategory = 'Giáo dục';
-
-        // SỨC KHỎE
-        } else if (desc.includes('BENH VIEN') || desc.includes('PHARMACY') || desc.includes('NHA THUOC') || desc.includes('KHAM') || desc.includes('MEDIC') || desc.includes('HEALTH') || desc.includes('SPA')) {
-          newCategory = 'Sức khỏe';
-
-        // GIẢI TRÍ
-        } else if (desc.includes('CGV') || desc.includes('NETFLIX') || desc.includes('SPOTIFY') || desc.includes('YOUTUBE') || desc.includes('CINEMA') || desc.includes('GAME') || desc.includes('STEAM') || desc.includes('KARAOKE')) {
-          newCategory = 'Giải trí';
-
-        // CHUYỂN TIỀN (Cuối cùng)
-        } else if (desc.includes('CHUYEN TIEN') || desc.includes('CK') || desc.includes('IBFT') || desc.includes('NAP') || desc.includes('RUT')) {
-          newCategory = 'Chuyển tiền';
-        }
-      }
-    }
+// Kết quả AI của một trang trong batch
+interface BatchPageResult {
+  page: number;
+  success: boolean;
+  data?: any;
+  cached?: boolean;
+  usage?: AiUsage;
+  error?: string;
+}
 
-    return {
-      ...tx,
-      category: newCategory || 'Khác'
-    };
-  });
+/**
+ * Tách phản hồi của request nhiều trang thành phản hồi từng trang (theo 'pg' của từng dòng),
+ * để cache / bản ghi mock vẫn lưu theo trang như khi gửi từng trang một
+ */
+const splitBatchResponse = (data: any, pages: number[]): { page: number; data: any }[] => {
+  if (pages.length === 1) return [{ page: pages[0], data }];
+  const txs = Array.isArray(data.txs) ? data.txs : [];
+  // Dòng không ghi trang (hoặc ghi trang ngoài nhóm) tính vào trang đầu của nhóm
+  const pageOf = (tx: any) => (pages.includes(Number(tx.pg)) ? Number(tx.pg) : pages[0]);
+  return pages.map((page, i) => ({
+    page,
+    data: {
+      // Thông tin đầu sao kê / số dư đầu kỳ nằm ở trang đầu, số dư cuối kỳ ở trang cuối; 'n' đếm cả nhóm nên bỏ
+      ...(i === 0 ? { bank: data.bank, holder: data.holder, period: data.period, cur: data.cur, ob: data.ob } : {}),
+      ...(i === pages.length - 1 ? { cb: data.cb } : {}),
+      txs: txs.filter((tx: any) => pageOf(tx) === page)
+    }
+  }));
 };
 
+/**
+ * Gắn số trang và số thứ tự dòng trên trang cho giao dịch để có thể thay thế khi chạy lại trang
+ */
+const withPage = (transactions: Transaction[], page: number): Transaction[] =>
+  transactions.map((tx, i) => ({ ...tx, source: { ...tx.source, page, row: i + 1 } }));
+
 /**
  * Hàm chính phân tích PDF (Có hỗ trợ xử lý song song và callback tiến độ)
+ *
+ * @param onlyPages Chỉ xử lý các trang này bằng AI (dùng khi chạy lại trang lỗi), lớp văn bản chỉ dùng để đối chiếu
+ * @param control Hủy / tạm dừng. Khi bị hủy, trả về các trang đã xong; trang chưa xử lý được đánh dấu lỗi để chạy lại sau
+ * @param password Mật khẩu PDF (lấy từ resolvePdfPassword)
  */
 export const analyzePdfStatement = async (
   base64Pdf: string, 
-  onProgress?: (percent: number, current: number, total: number) => void
+  onProgress?: (percent: number, current: number, total: number) => void,
+  settings: ProviderSettings = getProviderSettings(),
+  onlyPages?: number[],
+  control?: AnalysisControl,
+  password?: string
 ): Promise<StatementData> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key không tìm thấy.");
-
-  const ai = new GoogleGenAI({ apiKey });
-  const model = "gemini-2.5-flash"; // Use cheaper/faster model for bulk processing
-
+  const signal = control?.signal;
   if (!getDocument) throw new Error("Lỗi tải thư viện PDF.js. Vui lòng tải lại trang.");
 
-  const loadingTask = getDocument({ data: atob(base64Pdf) });
-  const pdfDoc = await loadingTask.promise;
+  const binaryPdf = atob(base64Pdf);
+  // Khóa cache theo nội dung file: tải lại cùng file sẽ tiếp tục từ trang chưa xử lý
+  const pdfBytes = Uint8Array.from(binaryPdf, c => c.charCodeAt(0));
+  const fileHash = await hashBytes(pdfBytes);
+
+  const pdfDoc = await openPdfDocument(binaryPdf, password || undefined);
+  throwIfAborted(signal);
   const numPages = pdfDoc.numPages;
 
-  console.log(`PDF có ${numPages} trang. Bắt đầu xử lý...`);
+  // Trang cần AI đọc (trang scan / lớp văn bản không chắc chắn / trang người dùng chạy lại)
+  const aiPages: number[] = [];
 
-  // QUAN TRỌNG: Giảm Batch Size xuống 1 để đảm bảo AI đọc kỹ từng trang, không bỏ sót dòng.
-  // Đổi Scale lên 3.0 (ở hàm renderPageToImage) để ảnh nét hơn.
-  const BATCH_SIZE = 1; 
-  const batches: number[] = [];
-  for (let i = 1; i <= numPages; i += BATCH_SIZE) {
-    batches.push(i);
-  }
-  
-  const totalBatches = batches.length;
-  let completedBatches = 0;
+  const targetPages = onlyPages
+    ? onlyPages.filter(p => p >= 1 && p <= numPages)
+    : Array.from({ length: numPages }, (_, i) => i + 1);
+  const totalPages = targetPages.length;
+
+  let completedPages = 0;
+  const reportProgress = () => {
+    if (onProgress) {
+      onProgress(Math.round((completedPages / totalPages) * 100), completedPages, totalPages);
+    }
+  };
   
   // Kết quả chung
-  let allTransactions: any[] = [];
+  // Giao dịch gom theo trang, ghép lại theo thứ tự trang để kiểm tra số dư lũy kế
+  const pageTransactions: Record<number, Transaction[]> = {};
+  // Trạng thái từng trang: trang lỗi không còn bị bỏ qua trong im lặng
+  const pageReports: Record<number, PageReport> = {};
   let bankInfo = { bank: '', holder: '', period: '' };
+  let accountNumber: string | undefined;
+  let currency: string | undefined;
+  // Số dư cuối kỳ lấy từ trang có số thứ tự lớn nhất báo cáo giá trị này (workers hoàn thành không theo thứ tự)
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  let closingBalancePage = 0;
+  // Số dòng nhìn thấy trên bảng theo lớp văn bản, tin cậy hơn số dòng AI tự đếm
+  const textRowCounts: Record<number, number> = {};
+  // Số tiền / ngày / mã in trên các trang có lớp văn bản nhưng vẫn phải gửi AI, để kiểm tra lại kết quả AI
+  const pageEvidence: Record<number, TextLayerEvidence> = {};
+
+  // 1. Đọc lớp văn bản (PDF xuất từ hệ thống ngân hàng): không tốn API, không bị AI đọc sai số.
+  // Chỉ trang scan hoặc trang đọc không chắc chắn mới chuyển cho AI.
+  let layout: TextLayerLayout | null = null;
+  for (const p of targetPages) {
+    await control?.waitIfPaused();
+    if (signal?.aborted) break;
+
+    let extracted = null;
+    let page: any = null;
+    try {
+      page = await pdfDoc.getPage(p);
+      extracted = await extractTextLayerPage(page, layout);
+    } catch (err) {
+      console.warn(`Không đọc được lớp văn bản trang ${p}:`, err);
+    } finally {
+      // pdf.js giữ dữ liệu đã đọc của mọi trang tới khi đóng file: dọn từng trang để sao kê vài trăm trang không chiếm hết bộ nhớ
+      page?.cleanup();
+    }
+
+    if (onlyPages) {
+      aiPages.push(p);
+      if (extracted?.texts) pageEvidence[p] = collectTextLayerEvidence(extracted.texts);
+      continue;
+    }
+
+    if (extracted?.data && extracted.rowCandidates !== undefined) {
+      textRowCounts[p] = extracted.rowCandidates;
+    }
+
+    if (!extracted || extracted.confidence < TEXT_LAYER_MIN_CONFIDENCE) {
+      aiPages.push(p);
+      if (extracted?.texts) pageEvidence[p] = collectTextLayerEvidence(extracted.texts);
+      continue;
+    }
+
+    layout = extracted.layout;
+    const pageData = extracted.data;
+    const rowCount = pageData ? pageData.transactions.length : 0;
+    pageReports[p] = { page: p, status: rowCount > 0 ? 'ok' : 'empty', rowCount, method: 'text', expectedRows: textRowCounts[p] };
+    if (pageData) {
+      pageTransactions[p] = withPage(pageData.transactions, p);
+      if (p === 1) {
+        bankInfo = { bank: pageData.bankName || '', holder: pageData.accountHolder || '', period: pageData.period || '' };
+        accountNumber = pageData.accountNumber;
+        currency = pageData.currency;
+        openingBalance = pageData.openingBalance;
+      }
+      if (pageData.closingBalance !== undefined) {
+        closingBalance = pageData.closingBalance;
+        closingBalancePage = p;
+      }
+    }
+    completedPages++;
+    reportProgress();
+  }
+
+  // Kết quả AI đã lưu từ lần chạy trước (bỏ qua khi người dùng chủ động chạy lại trang)
+  const cachedPages = onlyPages ? {} : getCachedPages(fileHash, PROMPT_VERSION);
+  const readCache = (page: number): string | null => cachedPages[page] ?? null;
+
+  // Gom trang thành từng request theo cấu hình; trang đã có kết quả lưu sẵn đi riêng, không gửi lại.
+  // Provider mock phát lại theo từng trang nên luôn gửi 1 trang/lần.
+  const batchSize = settings.provider === 'mock' ? 1 : Math.max(1, Math.round(settings.batchSize));
+  const batches: number[][] = [];
+  aiPages.forEach(p => {
+    const last = batches[batches.length - 1];
+    if (last && last.length < batchSize && readCache(p) === null && readCache(last[0]) === null) last.push(p);
+    else batches.push([p]);
+  });
+
+  // Chỉ khởi tạo provider khi thực sự cần AI (PDF có lớp văn bản đọc được hoàn toàn offline)
+  let provider: ExtractionProvider | null = null;
+  if (batches.some(batch => readCache(batch[0]) === null)) {
+    const replay = settings.provider === 'mock' ? getMockRecording(fileHash) : {};
+    if (settings.provider === 'mock' && Object.keys(replay).length === 0) {
+      throw new Error("Không có bản ghi phản hồi cho file PDF này. Bản ghi lưu theo nội dung file: hãy chạy file này một lần với Gemini / server AI, hoặc nhập bản ghi của đúng file.");
+    }
+    provider = createExtractionProvider(settings, replay);
+  }
+  // Ghi lại phản hồi thô theo trang để provider mock phát lại
+  const recording: MockRecording = {};
+
+  // Vẽ trang gửi AI trong Web Worker để giao diện không bị đơ; worker lỗi thì quay về vẽ trên main thread
+  let renderer: PdfPageRenderer | null = provider && canRenderInWorker()
+    ? createPdfPageRenderer(pdfBytes, password || undefined, GlobalWorkerOptions.workerSrc)
+    : null;
+  const renderForAi = async (pageNum: number): Promise<string> => {
+    if (renderer) {
+      try {
+        return await renderer.render(pageNum, settings.renderScale, settings.jpegQuality, signal);
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.warn("Không vẽ được trang trong worker, chuyển sang main thread:", err);
+        renderer?.destroy();
+        renderer = null;
+      }
+    }
+    return renderPageToImage(pdfDoc, pageNum, signal, settings.renderScale, settings.jpegQuality);
+  };
+
+  // Worker xử lý một batch: trả về kết quả theo từng trang
+  const processBatch = async (pages: number[]): Promise<BatchPageResult[]> => {
+    const pageLabel = pages.join(', ');
+    // Phản hồi đã nhận thì đã tính phí, kể cả khi không đọc được JSON
+    let pageUsage: AiUsage[] = [];
 
-  // Worker xử lý một batch
-  const processBatch = async (startPage: number) => {
-    const endPage = Math.min(startPage + BATCH_SIZE - 1, numPages);
-    
     try {
+      const cached = readCache(pages[0]);
+      if (cached !== null) {
+        return [{ page: pages[0], success: true, data: JSON.parse(cached), cached: true }];
+      }
+
       // Render images
-      const imageParts = [];
-      for (let p = startPage; p <= endPage; p++) {
-        const base64Image = await renderPageToImage(pdfDoc, p);
-        imageParts.push({
-          inlineData: {
-            mimeType: "image/jpeg",
-            data: base64Image
-          }
-        });
+      const images: string[] = [];
+      for (const p of pages) {
+        images.push(await renderForAi(p));
       }
 
-      const isFirstBatch = startPage === 1;
-      const currentSchema = isFirstBatch ? fullSchema : listSchema;
+      const currentSchema = pages.includes(1) ? fullSchema : listSchema;
       
-      const promptText = `Nhiệm vụ: Trích xuất CHÍNH XÁC 100% dữ liệu bảng sao kê (Trang ${startPage}-${endPage}).
+      const promptText = `Nhiệm vụ: Trích xuất CHÍNH XÁC 100% dữ liệu bảng sao kê (Trang ${pageLabel}).
 
       QUAN TRỌNG VỀ SỐ LIỆU VÀ CỘT:
       1. Nhận diện Số tiền (Amount):
-         - CẢNH BÁO: Dấu chấm "." hoặc phẩy "," trong "1.000.000" hoặc "1,000,000" CHỈ là phân cách ngàn.
-         - QUY TẮC BẮT BUỘC: LOẠI BỎ TOÀN BỘ dấu chấm và dấu phẩy trong số tiền. Chỉ giữ lại số nguyên (0-9).
-         - Ví dụ: Thấy "1.000.000" -> Ghi 1000000. Thấy "50,000" -> Ghi 50000. Tuyệt đối KHÔNG ghi là 1 hay 50.
+         - Sao kê VND: Dấu chấm "." hoặc phẩy "," trong "1.000.000" hoặc "1,000,000" CHỈ là phân cách ngàn.
+           LOẠI BỎ TOÀN BỘ dấu chấm và dấu phẩy trong số tiền. Chỉ giữ lại số nguyên (0-9).
+           Ví dụ: Thấy "1.000.000" -> Ghi 1000000. Thấy "50,000" -> Ghi 50000. Tuyệt đối KHÔNG ghi là 1 hay 50.
+         - Sao kê ngoại tệ (USD, EUR...): GIỮ phần thập phân, bỏ phân cách ngàn.
+           Ví dụ: "1,234.56" -> 1234.56. "1.234,56" -> 1234.56. "12.50" -> 12.5 (KHÔNG ghi 1250).
+         - Ghi mã loại tiền của tài khoản (VND, USD, EUR...) vào 'cur' nếu schema có trường này.
 
       2. Phân loại Nợ (Debit) / Có (Credit) - ƯU TIÊN VỊ TRÍ CỘT:
          - Nếu số nằm ở cột "Ghi Nợ", "Debit", "Chi", "-" -> Điền vào 'd_amt'.
@@ -287,125 +484,239 @@ export const analyzePdfStatement = async (
              + Nếu là Tiền vào -> Lấy tên sau "TU"/"NGUOI CHUYEN".
          - Hỗ trợ cả không dấu: "CHUYEN KHOAN", "CHUYEN TIEN", "CK", "NGUOI HUONG".
 
-      Yêu cầu: TUYỆT ĐỐI KHÔNG BỎ SÓT DÒNG NÀO. Trả về đầy đủ số lượng giao dịch nhìn thấy.`;
+      4. Số dư (Balance):
+         - Nếu bảng có cột "Số dư"/"Balance", ghi số dư của từng dòng vào 'bal' (cùng quy tắc bỏ dấu phân cách).
+         - Dòng "Số dư đầu kỳ"/"Opening balance" KHÔNG phải giao dịch: ghi vào 'ob'. Dòng "Số dư cuối kỳ"/"Closing balance": ghi vào 'cb'.
 
-      const response = await generateWithRetry(ai, {
-        model: model,
-        contents: { parts: [...imageParts, { text: promptText }] },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: currentSchema as Schema,
-        }
-      });
+      5. Dòng chuyển trang:
+         - Dòng "Mang sang"/"Chuyển trang"/"Cộng trang"/"Brought forward" KHÔNG phải giao dịch, không đưa vào 'txs'.
+         - Đếm số dòng giao dịch nhìn thấy trong bảng (không tính các dòng trên) và ghi vào 'n'.
+
+      6. Độ chắc chắn (conf):
+         - Với mỗi dòng, ghi 'conf' từ 0 đến 1: mức chắc chắn đã đọc đúng mọi trường của dòng đó.
+         - Hạ 'conf' khi chữ mờ, số bị che/đè dấu, dòng bị cắt ngang trang hoặc không rõ cột Nợ/Có.
+
+      7. Số trang (pg):
+         - Các ảnh lần lượt là trang ${pageLabel}. Ghi số trang của từng dòng vào 'pg'.
 
-      const text = response.text;
-      if (text) {
-        const batchData = JSON.parse(text);
-        return { 
-          success: true, 
-          data: batchData, 
-          isFirst: isFirstBatch 
-        };
+      Yêu cầu: TUYỆT ĐỐI KHÔNG BỎ SÓT DÒNG NÀO. Trả về đầy đủ số lượng giao dịch nhìn thấy.`;
+
+      const { text, usage } = await provider!.extractPages({ pages, images, prompt: promptText, schema: currentSchema, signal });
+      if (usage) pageUsage = splitUsage(usage, pages.length);
+      if (!text) {
+        return pages.map((page, i) => ({ page, success: false, usage: pageUsage[i], error: "AI không trả về dữ liệu." }));
       }
-    } catch (err) {
-      console.error(`Lỗi batch ${startPage}-${endPage}:`, err);
+      return splitBatchResponse(JSON.parse(text), pages).map(({ page, data }, i) => {
+        const pageText = pages.length === 1 ? text : JSON.stringify(data);
+        recording[page] = pageText;
+        // Lưu ngay từng trang để tab bị tải lại / hết quota giữa chừng vẫn giữ được phần đã làm
+        saveCachedPage(fileHash, page, PROMPT_VERSION, pageText);
+        return { page, success: true, data, usage: pageUsage[i] };
+      });
+    } catch (err: any) {
+      if (!isAbortError(err)) console.error(`Lỗi batch trang ${pageLabel}:`, err);
+      // Request lỗi / bị hủy giữa chừng vẫn có thể đã bị tính phí
+      if (err?.usage && pageUsage.length === 0) pageUsage = splitUsage(err.usage, pages.length);
+      return pages.map((page, i) => ({ page, success: false, usage: pageUsage[i], error: err?.message || String(err) }));
     }
-    return { success: false };
   };
 
   // Quản lý concurrency 
-  const CONCURRENCY_LIMIT = 2; // Tăng lên 2 vì Batch Size đã giảm xuống 1
+  const concurrencyLimit = Math.max(1, Math.round(settings.concurrency));
   const queue = [...batches];
   
   const worker = async () => {
     while (queue.length > 0) {
-      const startPage = queue.shift();
-      if (startPage === undefined) break;
+      // Tạm dừng: không lấy trang mới cho tới khi tiếp tục; hủy: dừng hẳn, các trang còn lại giữ trong hàng đợi
+      await control?.waitIfPaused();
+      if (signal?.aborted) break;
+
+      const batch = queue.shift();
+      if (batch === undefined) break;
       
-      const result = await processBatch(startPage);
+      const results = await processBatch(batch);
       
-      if (result.success && result.data) {
-        if (result.isFirst) {
-          bankInfo = {
-            bank: result.data.bank || bankInfo.bank,
-            holder: result.data.holder || bankInfo.holder,
-            period: result.data.period || bankInfo.period
-          };
-        }
-        if (result.data.txs && Array.isArray(result.data.txs)) {
-          // Push vào mảng chung (Do JS đơn luồng nên push này an toàn)
-          allTransactions.push(...result.data.txs);
+      results.forEach(result => {
+        const page = result.page;
+        if (result.success && result.data) {
+          if (page === 1) {
+            bankInfo = {
+              bank: result.data.bank || bankInfo.bank,
+              holder: result.data.holder || bankInfo.holder,
+              period: result.data.period || bankInfo.period
+            };
+            if (typeof result.data.ob === 'number') openingBalance = result.data.ob;
+            currency = normalizeCurrencyCode(result.data.cur) || currency;
+          }
+          if (typeof result.data.cb === 'number' && page >= closingBalancePage) {
+            closingBalance = result.data.cb;
+            closingBalancePage = page;
+          }
+          const txs = Array.isArray(result.data.txs) ? result.data.txs.map(mapAiTransaction) : [];
+          pageTransactions[page] = withPage(txs, page);
+          const expectedRows = textRowCounts[page] ?? (typeof result.data.n === 'number' ? result.data.n : undefined);
+          pageReports[page] = { page, status: txs.length > 0 ? 'ok' : 'empty', rowCount: txs.length, method: 'ai', cached: result.cached, expectedRows, usage: result.usage };
+        } else {
+          pageReports[page] = { page, status: 'failed', rowCount: 0, method: 'ai', usage: result.usage, error: result.error };
         }
-      }
+      });
 
-      completedBatches++;
-      if (onProgress) {
-        const processedPages = Math.min(completedBatches * BATCH_SIZE, numPages);
-        onProgress(
-          Math.round((completedBatches / totalBatches) * 100),
-          processedPages,
-          numPages
-        );
-      }
+      completedPages = Math.min(completedPages + batch.length, totalPages);
+      reportProgress();
 
-      // Thêm delay nhỏ giữa các batch để giảm tải API và tránh rate limit
-      if (queue.length > 0) {
-        await wait(500); // Giảm delay một chút vì xử lý từng trang nhẹ hơn
+      // Nghỉ giữa các batch để giảm tải API và tránh rate limit
+      if (queue.length > 0 && settings.batchDelayMs > 0 && !results.every(r => r.cached) && !signal?.aborted) {
+        // Bị hủy trong lúc nghỉ: thoát vòng lặp ở lượt kiểm tra kế tiếp
+        await wait(settings.batchDelayMs, signal).catch(() => {});
       }
     }
   };
 
   // Khởi chạy workers
-  const workers = Array(Math.min(batches.length, CONCURRENCY_LIMIT))
+  const workers = Array(Math.min(batches.length, concurrencyLimit))
     .fill(null)
     .map(() => worker());
     
   await Promise.all(workers);
 
-  // Map dữ liệu sang format Transaction
-  let transactions: Transaction[] = allTransactions.map((tx: any) => {
-    // Logic xác định Type và Amount chính xác từ 2 cột c_amt và d_amt
-    let amount = 0;
-    let type: 'CREDIT' | 'DEBIT' = 'CREDIT';
-
-    const c = Number(tx.c_amt) || 0;
-    const d = Number(tx.d_amt) || 0;
-
-    if (d > 0) {
-      amount = d;
-      type = 'DEBIT';
-    } else if (c > 0) {
-      amount = c;
-      type = 'CREDIT';
-    } else if (tx.a) { 
-      // Fallback nếu AI đời cũ vẫn trả về 'a' và 't'
-      amount = Number(tx.a);
-      type = tx.t === 'D' ? 'DEBIT' : 'CREDIT';
-    }
+  // Không cần vẽ / đọc trang nữa: giải phóng file PDF ở cả main thread và worker
+  renderer?.destroy();
+  await pdfDoc.destroy();
+
+  if (settings.provider !== 'mock' && Object.keys(recording).length > 0) {
+    // Chạy lại vài trang: giữ bản ghi các trang khác của lần chạy trước
+    saveMockRecording(fileHash, recording, !!onlyPages);
+  }
+
+  // Tổng lượng dùng AI của lượt này: lưu kèm sao kê và ghi vào nhật ký chi phí theo tháng
+  const totalUsage = sumUsage(Object.values(pageReports).map(r => r.usage).filter(Boolean));
+  let usageRecord: UsageRecord | undefined;
+  if (totalUsage.requests > 0) {
+    usageRecord = { at: Date.now(), provider: settings.provider, model: settings.model, ...totalUsage };
+    appendUsageLog(usageRecord);
+  }
 
-    return {
-      date: tx.d,
-      amount: amount,
-      type: type,
-      description: tx.desc,
-      transaction_code: tx.code,
-      partner_name: tx.pn,
-      partner_account: tx.pa,
-      category: tx.cat
-    };
+  // Ghép giao dịch theo thứ tự trang (workers xong không theo thứ tự), bỏ dòng lặp ở chỗ ngắt trang
+  const merged = mergePageTransactions(pageTransactions, targetPages);
+  let transactions = merged.transactions;
+  Object.entries(merged.removedByPage).forEach(([page, removed]) => {
+    const report = pageReports[Number(page)];
+    if (report) {
+      report.duplicatesRemoved = removed;
+      report.rowCount -= removed;
+      if (report.rowCount === 0 && report.status === 'ok') report.status = 'empty';
+    }
   });
   
   // Áp dụng logic cải thiện phân loại (Post-processing)
-  transactions = normalizeCategories(transactions);
+  // Ngày AI đọc có thể ở nhiều dạng: chuẩn hóa, dòng không đọc được ngày sẽ bị đánh dấu
+  // AI hay bỏ trống số tài khoản đối tác khi nội dung không tách riêng: tách lại từ nội dung
+  transactions = normalizeCategories(enrichPartnerDetails(normalizeTransactionDates(transactions)));
+  // Ngày AI đọc phải sửa lại / không đọc được thì hạ điểm tin cậy (dòng từ lớp văn bản đã chấm điểm khi parse)
+  transactions = transactions.map(tx => tx.confidence_reasons?.includes('AI_SELF_REPORTED')
+    ? addConfidenceReasons(tx, [dateConfidenceReason(tx.date, !tx.date_invalid)])
+    : tx);
+  // AI hay đọc nhầm 6/8/0 trên ảnh: trang có lớp văn bản thì đối chiếu số tiền / ngày / mã với chữ thật trên trang.
+  // Số tiền đã khớp đúng với dòng khác cùng trang không được dùng để sửa dòng đọc nhầm.
+  const claimedAmounts: Record<number, Set<string>> = {};
+  Object.keys(pageEvidence).forEach(key => {
+    const page = Number(key);
+    claimedAmounts[page] = collectClaimedAmounts(transactions.filter(tx => tx.source?.page === page), pageEvidence[page]);
+  });
+  transactions = transactions.map(tx => {
+    const page = tx.source?.page ?? 0;
+    const evidence = tx.confidence_reasons?.includes('AI_SELF_REPORTED') ? pageEvidence[page] : undefined;
+    return evidence ? verifyWithTextLayer(tx, evidence, claimedAmounts[page]) : tx;
+  });
+  // Trang do AI đọc không ghi loại tiền từng dòng: theo loại tiền của tài khoản
+  currency = currency || transactions.find(tx => tx.currency)?.currency;
+  if (currency) transactions = transactions.map(tx => ({ ...tx, currency: tx.currency || currency }));
+
+  // Bị hủy: các trang chưa kịp xử lý được báo lỗi để người dùng chạy lại sau
+  if (signal?.aborted) {
+    targetPages.forEach(p => {
+      if (!pageReports[p]) {
+        pageReports[p] = { page: p, status: 'failed', rowCount: 0, method: 'ai', error: "Đã hủy trước khi xử lý." };
+      }
+    });
+    if (transactions.length === 0) throw createAbortError();
+  }
+
+  const reports = targetPages.map(p => pageReports[p]).filter(Boolean);
+  const hasFailedPages = reports.some(r => r.status === 'failed');
   
-  if (transactions.length === 0) {
+  // Có trang lỗi thì vẫn trả kết quả để người dùng chạy lại các trang đó
+  if (transactions.length === 0 && !hasFailedPages && !onlyPages) {
     throw new Error("Không trích xuất được dữ liệu. Vui lòng thử lại hoặc kiểm tra file.");
   }
 
   return {
     bankName: bankInfo.bank,
     accountHolder: bankInfo.holder,
+    accountNumber,
     period: bankInfo.period,
-    transactions: transactions
+    openingBalance,
+    closingBalance,
+    currency,
+    transactions: transactions,
+    pageReports: reports,
+    extractionSettings: provider ? toSettingsSnapshot(settings) : undefined,
+    usage: usageRecord ? [usageRecord] : undefined
+  };
+};
+
+/**
+ * Chạy lại một số trang PDF và ghép kết quả vào sao kê hiện tại (thay thế giao dịch cũ của các trang đó)
+ */
+export const retryPdfPages = async (
+  base64Pdf: string,
+  current: StatementData,
+  pages: number[],
+  onProgress?: (percent: number, current: number, total: number) => void,
+  settings: ProviderSettings = getProviderSettings(),
+  control?: AnalysisControl,
+  password?: string
+): Promise<StatementData> => {
+  const result = await analyzePdfStatement(base64Pdf, onProgress, settings, pages, control, password);
+  const retried = new Set(pages);
+
+  // Gom lại theo trang rồi ghép lại: ranh giới giữa trang chạy lại và trang cũ cũng được kiểm tra dòng lặp
+  const byPage: Record<number, Transaction[]> = {};
+  [...current.transactions.filter(tx => !retried.has(tx.source?.page ?? -1)), ...result.transactions].forEach(tx => {
+    const page = tx.source?.page ?? 0;
+    (byPage[page] = byPage[page] || []).push(tx);
+  });
+  const merged = mergePageTransactions(byPage, Object.keys(byPage).map(Number));
+
+  const pageReports = [
+    ...(current.pageReports || []).filter(r => !retried.has(r.page)),
+    ...(result.pageReports || [])
+  ]
+    .sort((a, b) => a.page - b.page)
+    .map(report => {
+      const removed = merged.removedByPage[report.page];
+      if (!removed) return report;
+      const rowCount = report.rowCount - removed;
+      return {
+        ...report,
+        rowCount,
+        status: rowCount === 0 && report.status === 'ok' ? 'empty' as const : report.status,
+        duplicatesRemoved: (report.duplicatesRemoved || 0) + removed
+      };
+    });
+
+  return {
+    ...current,
+    bankName: current.bankName || result.bankName,
+    accountHolder: current.accountHolder || result.accountHolder,
+    accountNumber: current.accountNumber || result.accountNumber,
+    period: current.period || result.period,
+    openingBalance: current.openingBalance ?? result.openingBalance,
+    closingBalance: current.closingBalance ?? result.closingBalance,
+    currency: current.currency || result.currency,
+    transactions: merged.transactions,
+    pageReports,
+    extractionSettings: result.extractionSettings || current.extractionSettings,
+    usage: current.usage || result.usage ? [...(current.usage || []), ...(result.usage || [])] : undefined
   };
 };
\ No newline at end of file
@@ -1,12 +1,84 @@
+// Vùng của một dòng trên trang PDF, tính theo tỉ lệ kích thước trang (0..1, gốc ở góc trên bên trái)
+export interface SourceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Nguồn gốc của giao dịch trong file gốc
+export interface TransactionSource {
+  sheet?: string; // Tên sheet (Excel)
+  row?: number;   // Số dòng trong sheet (1-based)
+  page?: number;  // Số trang (PDF, 1-based)
+  bbox?: SourceBox; // Vị trí dòng trên trang (chỉ có với trang đọc từ lớp văn bản)
+  file?: string;  // Tên file gốc khi gộp nhiều file sao kê
+}
+
+// Lý do làm giảm độ tin cậy của một dòng trích xuất
+export type ConfidenceReason =
+  | 'AI_SELF_REPORTED'   // AI đọc từ ảnh, điểm do AI tự đánh giá
+  | 'SIGN_INFERRED'      // Chiều tiền vào/ra đoán theo từ khóa
+  | 'PARTNER_HEURISTIC'  // Tên đối tác tách bằng quy tắc từ nội dung
+  | 'DATE_REPAIRED'      // Ngày ở dạng lạ đã được chuẩn hóa lại
+  | 'DATE_INVALID'       // Không đọc được ngày
+  | 'AMOUNT_CORRECTED'   // Số tiền AI đọc đã được sửa theo lớp văn bản PDF
+  | 'AMOUNT_MISMATCH'    // Số tiền AI đọc không có trên trang
+  | 'DATE_CORRECTED'
+  | 'DATE_MISMATCH'
+  | 'CODE_CORRECTED'
+  | 'CODE_MISMATCH'
+  | 'PAGE_BOUNDARY_REPEAT'; // Giống hệt dòng cuối trang trước nhưng không có số dư để chắc là đọc lặp
+
 export interface Transaction {
-  date: string;
+  date: string;        // Ngày như trong sao kê gốc
+  date_iso?: string;   // Ngày chuẩn hóa YYYY-MM-DD (dùng để lọc, sắp xếp, nhóm, xuất file)
+  time?: string;       // Giờ giao dịch HH:mm(:ss), nếu sao kê có
+  value_date?: string; // Ngày hiệu lực YYYY-MM-DD, nếu khác ngày giao dịch
+  date_invalid?: boolean; // Không đọc được ngày: cần kiểm tra lại dòng này
   amount: number;
+  currency?: string; // Mã ISO 4217 (VND, USD, EUR...); không có nghĩa là VND
   description: string;
   transaction_code: string;
   partner_name: string;
   partner_account: string;
+  partner_bank?: string; // Ngân hàng của đối tác (từ mã BIN / tên viết tắt trong nội dung)
   type: 'CREDIT' | 'DEBIT'; // Credit = Tiền vào (+), Debit = Tiền ra (-)
   category?: string; // Phân loại giao dịch (VD: Ăn uống, Mua sắm...)
+  balance?: number; // Số dư sau giao dịch (nếu sao kê có cột số dư)
+  source?: TransactionSource;
+  confidence?: number; // Độ tin cậy khi trích xuất (0..1); không có nghĩa là đọc từ định dạng chuẩn (OFX, MT940...)
+  confidence_reasons?: ConfidenceReason[];
+  reviewed?: boolean; // Người dùng đã xác nhận / sửa dòng này trong danh sách "Cần kiểm tra"
+}
+
+// Thông số trích xuất đã dùng khi AI đọc sao kê (lưu kèm sao kê để truy vết; không chứa API key)
+export interface ExtractionSettingsSnapshot {
+  provider: string;
+  model: string;
+  preset?: string; // Bộ thông số có sẵn đã chọn; không có nghĩa là tự chỉnh
+  batchSize: number;
+  concurrency: number;
+  batchDelayMs: number;
+  renderScale: number;
+  jpegQuality: number;
+  maxRetries: number;
+}
+
+// Lượng dùng AI (của một trang hoặc cả lượt phân tích)
+export interface AiUsage {
+  requests: number;     // Số request AI (không tính lần thử lại)
+  retries: number;      // Số lần thử lại do 429 / 503
+  inputTokens: number;
+  outputTokens: number; // Gồm cả token suy luận (thinking), tính giá như token đầu ra
+  latencyMs: number;    // Thời gian chờ AI, kể cả thời gian chờ giữa các lần thử lại
+}
+
+// Một lượt phân tích có gọi AI: lưu kèm sao kê và vào nhật ký chi phí
+export interface UsageRecord extends AiUsage {
+  at: number; // Thời điểm phân tích
+  provider: string;
+  model: string;
 }
 
 export interface StatementData {
@@ -15,8 +87,49 @@ export interface StatementData {
   savedAt?: number; // Thời gian lưu
   bankName?: string;
   accountHolder?: string;
+  accountNumber?: string; // Số tài khoản của chủ sao kê
   period?: string;
+  openingBalance?: number; // Số dư đầu kỳ
+  closingBalance?: number; // Số dư cuối kỳ
+  currency?: string; // Loại tiền của tài khoản; không có khi gộp nhiều tài khoản khác loại tiền
   transactions: Transaction[];
+  pageReports?: PageReport[]; // Kết quả xử lý từng trang (chỉ có với PDF)
+  extractionSettings?: ExtractionSettingsSnapshot; // Chỉ có khi có trang do AI đọc
+  usage?: UsageRecord[]; // Mỗi lượt gọi AI một bản ghi (lần phân tích đầu + các lần chạy lại trang)
+}
+
+// Trạng thái một file trong hàng đợi tải lên nhiều file
+export interface UploadQueueItem {
+  name: string;
+  status: 'pending' | 'processing' | 'done' | 'failed';
+  progress: number; // 0-100
+  rowCount?: number;
+  error?: string;
+}
+
+// Trạng thái xử lý một trang PDF
+export interface PageReport {
+  page: number;
+  status: 'ok' | 'failed' | 'empty';
+  rowCount: number;
+  method: 'text' | 'ai'; // Đọc từ lớp văn bản hay từ ảnh bằng AI
+  cached?: boolean;      // Lấy lại kết quả AI đã lưu của lần chạy trước
+  expectedRows?: number; // Số dòng giao dịch nhìn thấy trên bảng, để phát hiện AI đọc thiếu/thừa dòng
+  duplicatesRemoved?: number; // Dòng lặp ở chỗ ngắt trang / dòng "mang sang" đã bị loại
+  usage?: AiUsage;       // Trang gửi chung request với trang khác được chia đều token / thời gian
+  file?: string;         // File nguồn, chỉ có ở sao kê gộp nhiều file
+  error?: string;
+}
+
+export interface ReconciliationResult {
+  openingBalance?: number;
+  closingBalance?: number;
+  totalCredit: number;
+  totalDebit: number;
+  expectedClosing?: number; // Đầu kỳ + Tiền vào - Tiền ra
+  difference?: number;      // Cuối kỳ thực tế - Cuối kỳ tính toán
+  isBalanced: boolean | null; // null = không đủ dữ liệu để đối chiếu
+  brokenRows: Set<Transaction>; // Các dòng có số dư lũy kế bị đứt
 }
 
 export enum AnalysisStatus {
@@ -61,4 +174,6 @@ export interface SavedStatementSummary {
   period: string;
   savedAt: number;
   transactionCount: number;
+  extractionSettings?: ExtractionSettingsSnapshot;
+  usage?: UsageRecord[];
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { AiUsage, UsageRecord } from '../types';
+
+const PRICES_KEY = 'smart_bank_model_prices_v1';
+const USAGE_LOG_KEY = 'smart_bank_usage_log_v1';
+
+// Giữ tối đa chừng này lượt trong nhật ký (đủ cho vài năm dùng thường xuyên)
+const MAX_USAGE_LOG_ENTRIES = 2000;
+
+// Giá theo USD cho 1 triệu token
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface MonthlyUsage extends AiUsage {
+  month: string; // YYYY-MM
+  cost: number;  // Chỉ tính các model có trong bảng giá
+  unpricedModels: string[];
+}
+
+// Giá niêm yết gói trả phí (prompt <= 200k token). Server tự host không có giá mặc định.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 }
+];
+
+export const EMPTY_USAGE: AiUsage = { requests: 0, retries: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 };
+
+export const sumUsage = (items: AiUsage[]): AiUsage => items.reduce((total, item) => ({
+  requests: total.requests + item.requests,
+  retries: total.retries + item.retries,
+  inputTokens: total.inputTokens + item.inputTokens,
+  outputTokens: total.outputTokens + item.outputTokens,
+  latencyMs: total.latencyMs + item.latencyMs
+}), EMPTY_USAGE);
+
+/**
+ * Chia lượng dùng của một request nhiều trang cho từng trang: token / thời gian chia đều (phần dư vào trang đầu),
+ * số request và số lần thử lại tính cho trang đầu để cộng lại vẫn đúng tổng
+ */
+export const splitUsage = (usage: AiUsage, parts: number): AiUsage[] => {
+  if (parts <= 1) return [usage];
+  const share = (value: number, i: number) => Math.floor(value / parts) + (i === 0 ? value % parts : 0);
+  return Array.from({ length: parts }, (_, i) => ({
+    requests: i === 0 ? usage.requests : 0,
+    retries: i === 0 ? usage.retries : 0,
+    inputTokens: share(usage.inputTokens, i),
+    outputTokens: share(usage.outputTokens, i),
+    latencyMs: share(usage.latencyMs, i)
+  }));
+};
+
+const findPrice = (model: string, prices: ModelPrice[]) => prices.find(p => p.model.trim() === model.trim());
+
+/**
+ * Chi phí ước tính (USD) của các lượt phân tích; model chưa có giá được liệt kê riêng, không tính vào tổng
+ */
+export const estimateCost = (records: UsageRecord[], prices: ModelPrice[] = getModelPrices()): { cost: number; unpricedModels: string[] } => {
+  const unpriced = new Set<string>();
+  const cost = records.reduce((sum, record) => {
+    const price = findPrice(record.model, prices);
+    if (!price) {
+      if (record.inputTokens + record.outputTokens > 0) unpriced.add(record.model);
+      return sum;
+    }
+    return sum + (record.inputTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1_000_000;
+  }, 0);
+  return { cost, unpricedModels: Array.from(unpriced) };
+};
+
+/**
+ * Gom nhật ký theo tháng (mới nhất trước)
+ */
+export const summarizeUsageByMonth = (records: UsageRecord[], prices: ModelPrice[] = getModelPrices()): MonthlyUsage[] => {
+  const byMonth: Record<string, UsageRecord[]> = {};
+  records.forEach(record => {
+    const date = new Date(record.at);
+    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    (byMonth[month] = byMonth[month] || []).push(record);
+  });
+  return Object.keys(byMonth)
+    .sort()
+    .reverse()
+    .map(month => ({ month, ...sumUsage(byMonth[month]), ...estimateCost(byMonth[month], prices) }));
+};
+
+export const formatUsd = (value: number): string =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: value > 0 && value < 0.01 ? 4 : 2, maximumFractionDigits: value < 0.01 ? 4 : 2 })}`;
+
+/**
+ * Mô tả ngắn gọn (VD: "3 request • 12.345 token vào / 2.100 token ra • thử lại 1 lần • 42 giây • ≈ $0.0089")
+ */
+export const describeUsage = (records: UsageRecord[], prices: ModelPrice[] = getModelPrices()): string => {
+  const total = sumUsage(records);
+  const { cost, unpricedModels } = estimateCost(records, prices);
+  const parts = [
+    `${total.requests} request`,
+    `${total.inputTokens.toLocaleString('vi-VN')} token vào / ${total.outputTokens.toLocaleString('vi-VN')} token ra`
+  ];
+  if (total.retries > 0) parts.push(`thử lại ${total.retries} lần`);
+  parts.push(`${Math.round(total.latencyMs / 1000)} giây`);
+  parts.push(unpricedModels.length > 0 ? `chưa có giá cho ${unpricedModels.join(', ')}` : `≈ ${formatUsd(cost)}`);
+  return parts.join(' • ');
+};
+
+export const getModelPrices = (): ModelPrice[] => {
+  try {
+    const str = localStorage.getItem(PRICES_KEY);
+    return str ? JSON.parse(str) : DEFAULT_MODEL_PRICES;
+  } catch (error) {
+    return DEFAULT_MODEL_PRICES;
+  }
+};
+
+export const saveModelPrices = (prices: ModelPrice[]) => {
+  try {
+    localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+  } catch (error) {
+    console.error("Không thể lưu bảng giá model", error);
+  }
+};
+
+/**
+ * Nhật ký chi phí riêng với lịch sử sao kê: lượt phân tích chưa lưu hoặc đã xóa sao kê vẫn được tính
+ */
+export const getUsageLog = (): UsageRecord[] => {
+  try {
+    const str = localStorage.getItem(USAGE_LOG_KEY);
+    return str ? JSON.parse(str) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+export const appendUsageLog = (record: UsageRecord) => {
+  try {
+    const log = [...getUsageLog(), record].slice(-MAX_USAGE_LOG_ENTRIES);
+    localStorage.setItem(USAGE_LOG_KEY, JSON.stringify(log));
+  } catch (error) {
+    console.error("Không thể lưu nhật ký chi phí AI", error);
+  }
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(USAGE_LOG_KEY);
+};
@@ -0,0 +1,86 @@
+import { getCurrencyDecimals } from './currency';
+
+/**
+ * Parse số tiền có phần thập phân (định dạng quốc tế: OFX, QIF, MT940...).
+ * Khác với parseVNAmount (bỏ hết dấu chấm/phẩy), hàm này giữ lại phần lẻ:
+ * - "1,234.56" / "1234.56" -> 1234.56
+ * - "1.234,56" / "12,50"   -> 1234.56 / 12.5
+ * - "1.000" / "12.500"     -> 1000 / 12500 (một dấu chấm + đúng 3 chữ số là phân cách ngàn, như "1,000")
+ */
+export const parseDecimalAmount = (val: any): number => {
+  if (typeof val === 'number') return val;
+  if (val === null || val === undefined) return 0;
+
+  let str = String(val).trim().replace(/\s/g, '');
+  if (!str) return 0;
+
+  // Số âm trong ngoặc: (12.50) -> -12.50
+  if (str.startsWith('(') && str.endsWith(')')) {
+    str = '-' + str.slice(1, -1);
+  }
+  str = str.replace(/[^\d.,\-+]/g, '');
+
+  const lastDot = str.lastIndexOf('.');
+  const lastComma = str.lastIndexOf(',');
+
+  if (lastComma > lastDot) {
+    // Dấu phẩy đứng sau cùng: là dấu thập phân nếu có dấu chấm phía trước ("1.234,56") hoặc chỉ có 1-2 chữ số lẻ ("12,50")
+    const decimals = str.length - lastComma - 1;
+    const isDecimalComma = lastDot !== -1 || (decimals > 0 && decimals <= 2);
+    str = isDecimalComma
+      ? str.slice(0, lastComma).replace(/[.,]/g, '') + '.' + str.slice(lastComma + 1)
+      : str.replace(/,/g, '');
+  } else if (str.indexOf('.') !== lastDot || /^[-+]?[1-9]\d{0,2}\.\d{3}$/.test(str)) {
+    // Nhiều dấu chấm ("1.000.000") hoặc nhóm ngàn kiểu châu Âu ("1.000"): dấu chấm là phân cách ngàn
+    str = str.replace(/[.,]/g, '');
+  } else {
+    str = str.replace(/,/g, '');
+  }
+
+  const parsed = parseFloat(str);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * Helper: Parse số tiền Việt Nam an toàn - STRICT MODE
+ * Loại bỏ TOÀN BỘ dấu chấm (.) và phẩy (,) nếu chúng có vẻ là phân cách ngàn.
+ * Khắc phục triệt để lỗi: 1.000.000 bị hiểu nhầm là 1.
+ */
+export const parseVNAmount = (val: any): number => {
+  if (typeof val === 'number') return val;
+  if (!val) return 0;
+  
+  let str = String(val).trim();
+  
+  // 1. Loại bỏ ký tự tiền tệ và khoảng trắng
+  str = str.replace(/[₫VND\s]/gi, '');
+
+  // 2. Xử lý số âm trong ngoặc: (5000) -> -5000
+  if (str.startsWith('(') && str.endsWith(')')) {
+    str = '-' + str.slice(1, -1);
+  }
+
+  // 3. LOGIC MỚI: Dọn sạch dấu chấm và phẩy để lấy số nguyên
+  // Hầu hết sao kê VN dùng dấu phân cách ngàn, rất ít khi dùng số thập phân (trừ khi là lãi suất lẻ)
+  // Nếu chuỗi có dạng "1.000.000" hoặc "1,000,000", ta muốn kết quả là 1000000.
+  
+  // Loại bỏ tất cả dấu chấm và phẩy
+  const cleanStr = str.replace(/[\.,]/g, '');
+  
+  const parsed = parseFloat(cleanStr);
+  
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+// Nhóm ngàn luôn có 3 chữ số: 2 chữ số sau dấu chấm/phẩy cuối cùng là phần lẻ (giống cách đọc ô tiền của lớp văn bản PDF)
+const DECIMAL_SUFFIX = /[.,]\d{2}\)?$/;
+
+/**
+ * Parse số tiền theo loại tiền của sao kê: VND (không có phần lẻ) bỏ hết dấu phân cách,
+ * USD/EUR... giữ phần thập phân ("12.50" -> 12.5 chứ không phải 1250).
+ * Chuỗi VND có ghi phần lẻ ("1,000,000.00" - file CSV / Excel xuất từ hệ thống) vẫn đọc phần lẻ, không bị gấp 100 lần
+ */
+export const parseCurrencyAmount = (val: any, currency?: string): number => {
+  if (getCurrencyDecimals(currency) !== 0) return parseDecimalAmount(val);
+  return typeof val === 'string' && DECIMAL_SUFFIX.test(val.trim()) ? parseDecimalAmount(val) : parseVNAmount(val);
+};
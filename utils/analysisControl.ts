@@ -0,0 +1,61 @@
+/**
+ * Điều khiển một lượt phân tích đang chạy: hủy (AbortSignal) và tạm dừng / tiếp tục.
+ * Tạm dừng không cắt request đang gửi, chỉ chặn trước khi bắt đầu trang tiếp theo.
+ */
+export interface AnalysisControl {
+  signal: AbortSignal;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  // Chờ tới khi được tiếp tục (hoặc bị hủy); trả về ngay nếu không tạm dừng
+  waitIfPaused: () => Promise<void>;
+}
+
+/**
+ * Lỗi khi lượt phân tích bị người dùng hủy
+ */
+export const createAbortError = () => {
+  const error = new Error("Đã hủy phân tích.");
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+export const createAnalysisControl = (): AnalysisControl => {
+  const controller = new AbortController();
+  let paused = false;
+  let resumeWaiters: (() => void)[] = [];
+
+  const release = () => {
+    const waiters = resumeWaiters;
+    resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  return {
+    signal: controller.signal,
+    cancel: () => {
+      controller.abort();
+      paused = false;
+      release();
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      release();
+    },
+    isPaused: () => paused,
+    waitIfPaused: () => {
+      if (!paused || controller.signal.aborted) return Promise.resolve();
+      return new Promise<void>(resolve => resumeWaiters.push(resolve));
+    }
+  };
+};
@@ -0,0 +1,59 @@
+export interface BankCode {
+  bin: string;       // Mã BIN NAPAS (6 số, xuất hiện trong nội dung chuyển khoản nhanh 247 / VietQR)
+  codes: string[];   // Tên viết tắt hay gặp trong nội dung giao dịch (chữ hoa, không dấu)
+  name: string;      // Tên hiển thị
+}
+
+// Danh sách ngân hàng thành viên NAPAS thường gặp
+export const BANK_CODES: BankCode[] = [
+  { bin: '970436', codes: ['VCB', 'VIETCOMBANK'], name: 'Vietcombank' },
+  { bin: '970415', codes: ['ICB', 'VTB', 'CTG', 'VIETINBANK'], name: 'VietinBank' },
+  { bin: '970418', codes: ['BIDV'], name: 'BIDV' },
+  { bin: '970405', codes: ['VBA', 'AGRIBANK', 'AGR'], name: 'Agribank' },
+  { bin: '970407', codes: ['TCB', 'TECHCOMBANK'], name: 'Techcombank' },
+  { bin: '970422', codes: ['MB', 'MBB', 'MBBANK'], name: 'MB Bank' },
+  { bin: '970416', codes: ['ACB'], name: 'ACB' },
+  { bin: '970432', codes: ['VPB', 'VPBANK'], name: 'VPBank' },
+  { bin: '970423', codes: ['TPB', 'TPBANK'], name: 'TPBank' },
+  { bin: '970403', codes: ['STB', 'SACOMBANK'], name: 'Sacombank' },
+  { bin: '970437', codes: ['HDB', 'HDBANK'], name: 'HDBank' },
+  { bin: '970441', codes: ['VIB'], name: 'VIB' },
+  { bin: '970443', codes: ['SHB'], name: 'SHB' },
+  { bin: '970426', codes: ['MSB', 'MARITIMEBANK'], name: 'MSB' },
+  { bin: '970448', codes: ['OCB'], name: 'OCB' },
+  { bin: '970431', codes: ['EIB', 'EXIMBANK'], name: 'Eximbank' },
+  { bin: '970429', codes: ['SCB'], name: 'SCB' },
+  { bin: '970449', codes: ['LPB', 'LPBANK', 'LIENVIETPOSTBANK'], name: 'LPBank' },
+  { bin: '970440', codes: ['SEAB', 'SEABANK'], name: 'SeABank' },
+  { bin: '970425', codes: ['ABB', 'ABBANK'], name: 'ABBANK' },
+  { bin: '970428', codes: ['NAB', 'NAMABANK'], name: 'Nam A Bank' },
+  { bin: '970409', codes: ['BAB', 'BACABANK'], name: 'Bac A Bank' },
+  { bin: '970430', codes: ['PGB', 'PGBANK'], name: 'PGBank' },
+  { bin: '970427', codes: ['VAB', 'VIETABANK'], name: 'VietABank' },
+  { bin: '970419', codes: ['NCB'], name: 'NCB' },
+  { bin: '970452', codes: ['KLB', 'KIENLONGBANK'], name: 'KienlongBank' },
+  { bin: '970454', codes: ['VCCB', 'BVBANK'], name: 'Ban Viet (BVBank)' },
+  { bin: '970400', codes: ['SGB', 'SAIGONBANK'], name: 'Saigonbank' },
+  { bin: '970412', codes: ['PVCB', 'PVCOMBANK'], name: 'PVcomBank' },
+  { bin: '970414', codes: ['OCEANBANK'], name: 'OceanBank' },
+  { bin: '970408', codes: ['GPB', 'GPBANK'], name: 'GPBank' },
+  { bin: '970406', codes: ['DAB', 'DONGABANK'], name: 'DongA Bank' },
+  { bin: '970438', codes: ['BVB', 'BAOVIETBANK'], name: 'BaoViet Bank' },
+  { bin: '970433', codes: ['VIETBANK'], name: 'VietBank' },
+  { bin: '970421', codes: ['VRB'], name: 'VRB' },
+  { bin: '970424', codes: ['SHBVN', 'SHINHAN'], name: 'Shinhan Bank' },
+  { bin: '970434', codes: ['IVB', 'INDOVINA'], name: 'Indovina Bank' },
+  { bin: '970439', codes: ['PBVN', 'PUBLICBANK'], name: 'Public Bank' },
+  { bin: '970442', codes: ['HLBVN', 'HONGLEONG'], name: 'Hong Leong Bank' },
+  { bin: '970457', codes: ['WVN', 'WOORI'], name: 'Woori Bank' },
+  { bin: '970458', codes: ['UOB'], name: 'UOB' },
+  { bin: '422589', codes: ['CIMB'], name: 'CIMB' },
+  { bin: '458761', codes: ['HSBC'], name: 'HSBC' }
+];
+
+const BY_BIN = new Map(BANK_CODES.map(b => [b.bin, b]));
+const BY_CODE = new Map(BANK_CODES.flatMap(b => b.codes.map(code => [code, b] as const)));
+
+export const findBankByBin = (bin: string): BankCode | undefined => BY_BIN.get(bin);
+
+export const findBankByCode = (code: string): BankCode | undefined => BY_CODE.get(code.toUpperCase());
@@ -0,0 +1,234 @@
+/**
+ * Registry các mẫu sao kê Excel theo ngân hàng.
+ * Mỗi profile cố định nhãn cột (đã chuẩn hóa, không dấu), định dạng ngày và quy ước dấu số tiền,
+ * giúp parser không phải đoán bằng từ khóa lỏng lẻo.
+ */
+
+export type StatementColumn = 'date' | 'amount' | 'credit' | 'debit' | 'description' | 'code' | 'balance' | 'account';
+
+export type ColumnMap = Partial<Record<StatementColumn, number>>;
+
+// DMY = 31/12/2024, MDY = 12/31/2024, YMD = 2024-12-31
+export type DateFormat = 'DMY' | 'MDY' | 'YMD';
+
+// SPLIT = hai cột Ghi nợ/Ghi có riêng; SIGNED = một cột, số âm là tiền ra; SIGNED_INVERTED = một cột, số âm là tiền vào
+export type SignConvention = 'SPLIT' | 'SIGNED' | 'SIGNED_INVERTED';
+
+export interface BankProfile {
+  id: string;
+  bankName: string;
+  markers: string[]; // Tên ngân hàng / SWIFT code xuất hiện phía trên dòng tiêu đề hoặc trong tên sheet
+  headerRow?: number; // Vị trí dòng tiêu đề quen thuộc (0-based), thử trước khi quét
+  columns: Partial<Record<StatementColumn, string[]>>;
+  dateFormat: DateFormat;
+  sign: SignConvention;
+}
+
+export interface HeaderDetection {
+  headerRowIndex: number;
+  colMap: ColumnMap;
+  profile?: BankProfile;
+  // Ghi đè từ mẫu cột do người dùng tự gán (wizard / template đã lưu)
+  dateFormat?: DateFormat;
+  sign?: SignConvention;
+  templateName?: string;
+  currency?: string; // Loại tiền đã biết từ trước (VD: đọc ở trang 1 của PDF), bỏ qua bước tự nhận diện
+}
+
+/**
+ * Chuẩn hóa nhãn để so khớp từ khóa (chữ thường, bỏ dấu tiếng Việt)
+ */
+export const normalizeLabel = (val: any): string => {
+  return String(val ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const BANK_PROFILES: BankProfile[] = [
+  {
+    id: 'VCB',
+    bankName: 'Vietcombank',
+    markers: ['vietcombank', 'ngoai thuong viet nam', 'bftvvnvx'],
+    headerRow: 12,
+    columns: {
+      date: ['ngay giao dich', 'ngay gd', 'transaction date'],
+      code: ['so tham chieu', 'so ct', 'reference no'],
+      debit: ['so tien ghi no', 'debit'],
+      credit: ['so tien ghi co', 'credit'],
+      balance: ['so du', 'balance'],
+      description: ['mo ta', 'noi dung', 'transactions in detail', 'description']
+    },
+    dateFormat: 'DMY',
+    sign: 'SPLIT'
+  },
+  {
+    id: 'TCB',
+    bankName: 'Techcombank',
+    markers: ['techcombank', 'ky thuong viet nam', 'vtcbvnvx'],
+    columns: {
+      date: ['ngay giao dich', 'transaction date'],
+      description: ['dien giai', 'noi dung', 'description'],
+      debit: ['no/debit', 'ghi no', 'debit'],
+      credit: ['co/credit', 'ghi co', 'credit'],
+      balance: ['so du/balance', 'so du'],
+      code: ['so but toan', 'so tham chieu']
+    },
+    dateFormat: 'DMY',
+    sign: 'SPLIT'
+  },
+  {
+    id: 'MB',
+    bankName: 'MB Bank',
+    markers: ['mb bank', 'mbbank', 'quan doi', 'mscbvnvx'],
+    columns: {
+      date: ['ngay giao dich', 'ngay gd'],
+      debit: ['phat sinh no', 'ghi no'],
+      credit: ['phat sinh co', 'ghi co'],
+      balance: ['so du'],
+      description: ['noi dung', 'dien giai'],
+      code: ['so but toan', 'ma giao dich']
+    },
+    dateFormat: 'DMY',
+    sign: 'SPLIT'
+  },
+  {
+    id: 'ACB',
+    bankName: 'ACB',
+    markers: ['ngan hang a chau', 'asia commercial', 'acb', 'ascbvnvx'],
+    columns: {
+      date: ['ngay hieu luc', 'ngay giao dich'],
+      code: ['so giao dich', 'so ct'],
+      description: ['noi dung giao dich', 'mo ta'],
+      debit: ['rut ra', 'ghi no'],
+      credit: ['gui vao', 'ghi co'],
+      balance: ['so du']
+    },
+    dateFormat: 'DMY',
+    sign: 'SPLIT'
+  },
+  {
+    id: 'BIDV',
+    bankName: 'BIDV',
+    markers: ['bidv', 'dau tu va phat trien', 'bidvvnvx'],
+    columns: {
+      date: ['ngay giao dich', 'ngay hieu luc'],
+      code: ['so tham chieu', 'ma giao dich'],
+      debit: ['so tien ghi no', 'ghi no'],
+      credit: ['so tien ghi co', 'ghi co'],
+      balance: ['so du'],
+      description: ['mo ta', 'dien giai', 'noi dung']
+    },
+    dateFormat: 'DMY',
+    sign: 'SPLIT'
+  },
+  {
+    id: 'VPB',
+    bankName: 'VPBank',
+    markers: ['vpbank', 'viet nam thinh vuong', 'vpbkvnvx'],
+    columns: {
+      date: ['ngay giao dich', 'ngay gd'],
+      code: ['so ct', 'ma gd', 'so tham chieu'],
+      description: ['dien giai', 'noi dung'],
+      amount: ['so tien'],
+      balance: ['so du']
+    },
+    dateFormat: 'DMY',
+    sign: 'SIGNED'
+  }
+];
+
+/**
+ * So khớp nhãn cột theo ranh giới: "so tien ghi no (vnd)" khớp "so tien ghi no" nhưng "so du" không khớp "so"
+ */
+const labelMatches = (cell: string, label: string): boolean => {
+  if (!cell.startsWith(label)) return false;
+  const next = cell.charAt(label.length);
+  return next === '' || !/[a-z0-9]/.test(next);
+};
+
+/**
+ * Ghép dòng tiêu đề với profile. Mỗi ô chỉ được gán cho nhãn dài nhất khớp với nó,
+ * để "so tien ghi no" không bị nhận nhầm là cột "so tien".
+ */
+const matchProfileHeader = (row: any[], profile: BankProfile): ColumnMap | null => {
+  const colMap: ColumnMap = {};
+
+  row.forEach((cell, colIdx) => {
+    const val = normalizeLabel(cell);
+    if (!val) return;
+
+    let bestColumn: StatementColumn | null = null;
+    let bestLength = 0;
+    for (const column of Object.keys(profile.columns) as StatementColumn[]) {
+      for (const label of profile.columns[column]!) {
+        if (labelMatches(val, label) && label.length > bestLength) {
+          bestColumn = column;
+          bestLength = label.length;
+        }
+      }
+    }
+
+    if (bestColumn && colMap[bestColumn] === undefined) {
+      colMap[bestColumn] = colIdx;
+    }
+  });
+
+  const hasMoney = profile.sign === 'SPLIT'
+    ? colMap.credit !== undefined && colMap.debit !== undefined
+    : colMap.amount !== undefined;
+
+  return colMap.date !== undefined && hasMoney ? colMap : null;
+};
+
+// Dấu hiệu dài (tên đầy đủ, SWIFT code) cụ thể hơn dấu hiệu ngắn ("acb", "quan doi") nên được xét trước
+const MARKERS_BY_SPECIFICITY = BANK_PROFILES
+  .flatMap(profile => profile.markers.map(marker => ({ profile, marker })))
+  .sort((a, b) => b.marker.length - a.marker.length);
+
+/**
+ * Tìm dòng tiêu đề khớp profile, thử dòng tiêu đề quen thuộc trước rồi mới quét
+ */
+const findProfileHeader = (rawData: any[][], profile: BankProfile): { headerRowIndex: number; colMap: ColumnMap } | null => {
+  const scanLimit = Math.min(100, rawData.length);
+  const candidates = profile.headerRow !== undefined ? [profile.headerRow] : [];
+  for (let i = 0; i < scanLimit; i++) {
+    if (i !== profile.headerRow) candidates.push(i);
+  }
+
+  for (const i of candidates) {
+    const row = rawData[i];
+    if (!row || !Array.isArray(row)) continue;
+    const colMap = matchProfileHeader(row, profile);
+    if (colMap) return { headerRowIndex: i, colMap };
+  }
+  return null;
+};
+
+/**
+ * Tự động nhận diện ngân hàng từ nội dung sheet.
+ * Yêu cầu cả dòng tiêu đề khớp profile lẫn tên ngân hàng nằm phía trên dòng tiêu đề (hoặc trong tên sheet);
+ * không khớp thì trả về null để dùng heuristic chung.
+ */
+export const detectBankProfile = (rawData: any[][], sheetName = ''): HeaderDetection | null => {
+  const headers = new Map<BankProfile, ReturnType<typeof findProfileHeader>>();
+
+  for (const { profile, marker } of MARKERS_BY_SPECIFICITY) {
+    if (!headers.has(profile)) headers.set(profile, findProfileHeader(rawData, profile));
+    const header = headers.get(profile);
+    if (!header) continue;
+
+    // Chỉ tìm tên ngân hàng phía trên dòng tiêu đề, tránh nhận nhầm từ nội dung giao dịch ("CK tu Vietcombank")
+    const markerText = [sheetName, ...rawData.slice(0, header.headerRowIndex).map(row => (Array.isArray(row) ? row.join(' ') : ''))]
+      .map(normalizeLabel)
+      .join(' ');
+    if (new RegExp(`(^|[^a-z0-9])${marker}([^a-z0-9]|$)`).test(markerText)) {
+      return { ...header, profile };
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,172 @@
+import { StatementData, Transaction } from '../types';
+import { normalizeCategories } from './categories';
+import { normalizeTransactionDates } from './dateUtils';
+import { decodeTextBytes } from './csvParser';
+import { normalizeCurrencyCode } from './currency';
+
+/**
+ * Tìm phần tử con theo đường dẫn tên thẻ (bỏ qua namespace, vì camt.053 có nhiều phiên bản .001.02 -> .001.10)
+ */
+const child = (el: Element | null | undefined, ...path: string[]): Element | null => {
+  let current: Element | null = el || null;
+  for (const name of path) {
+    if (!current) return null;
+    current = Array.from(current.children).find(c => c.localName === name) || null;
+  }
+  return current;
+};
+
+const children = (el: Element | null, name: string): Element[] => {
+  return el ? Array.from(el.children).filter(c => c.localName === name) : [];
+};
+
+const text = (el: Element | null | undefined, ...path: string[]): string => {
+  const found = child(el, ...path);
+  return found && found.textContent ? found.textContent.trim() : '';
+};
+
+/**
+ * YYYY-MM-DD hoặc YYYY-MM-DDThh:mm:ss -> DD/MM/YYYY
+ */
+const formatIsoDate = (val: string): string => {
+  const match = val.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : val;
+};
+
+const readAmount = (el: Element | null): number => {
+  const parsed = parseFloat(text(el, 'Amt'));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * Loại tiền nằm ở thuộc tính của số tiền: <Amt Ccy="EUR">
+ */
+const readCurrency = (el: Element | null): string | undefined => {
+  return normalizeCurrencyCode(child(el, 'Amt')?.getAttribute('Ccy') || '') || undefined;
+};
+
+/**
+ * Số tài khoản: IBAN hoặc mã tài khoản khác (Othr/Id)
+ */
+const readAccountId = (acct: Element | null): string => {
+  return text(acct, 'Id', 'IBAN') || text(acct, 'Id', 'Othr', 'Id');
+};
+
+/**
+ * Tên bên liên quan. Từ camt.053.001.08 tên nằm trong <Pty>: <Dbtr><Pty><Nm>, các bản cũ hơn là <Dbtr><Nm>
+ */
+const readPartyName = (party: Element | null): string => {
+  return text(party, 'Nm') || text(party, 'Pty', 'Nm');
+};
+
+/**
+ * Số dư theo mã loại: OPBD (đầu kỳ đã ghi sổ), PRCD (cuối kỳ trước), CLBD (cuối kỳ đã ghi sổ)
+ */
+const findBalance = (stmt: Element, codes: string[]): { amount: number; date: string } | null => {
+  for (const code of codes) {
+    const bal = children(stmt, 'Bal').find(b => text(b, 'Tp', 'CdOrPrtry', 'Cd') === code);
+    if (bal) {
+      const amount = readAmount(bal);
+      return {
+        amount: text(bal, 'CdtDbtInd') === 'DBIT' ? -amount : amount,
+        date: formatIsoDate(text(bal, 'Dt', 'Dt') || text(bal, 'Dt', 'DtTm'))
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Chuyển một bút toán <Ntry> thành giao dịch. Bút toán gộp (nhiều <TxDtls> có số tiền riêng) được tách thành nhiều giao dịch.
+ */
+const parseEntry = (entry: Element): Transaction[] => {
+  const isCredit = text(entry, 'CdtDbtInd') === 'CRDT';
+  // RvslInd = true: bút toán đảo, chiều tiền ngược với CdtDbtInd
+  const isReversal = text(entry, 'RvslInd') === 'true';
+  const type: Transaction['type'] = isCredit !== isReversal ? 'CREDIT' : 'DEBIT';
+  const date = formatIsoDate(text(entry, 'BookgDt', 'Dt') || text(entry, 'BookgDt', 'DtTm') || text(entry, 'ValDt', 'Dt'));
+  const valueDate = text(entry, 'ValDt', 'Dt') || text(entry, 'ValDt', 'DtTm');
+  const entryRef = text(entry, 'AcctSvcrRef') || text(entry, 'NtryRef');
+
+  const details = children(child(entry, 'NtryDtls'), 'TxDtls');
+  const splitDetails = details.length > 1 && details.every(d => child(d, 'Amt') || child(d, 'AmtDtls', 'TxAmt', 'Amt'));
+
+  const build = (tx: Element | null, amount: number, currency?: string): Transaction => {
+    // Tiền vào: đối tác là bên trả (Dbtr), tiền ra: đối tác là bên nhận (Cdtr)
+    const partyRole = isCredit ? 'Dbtr' : 'Cdtr';
+    const parties = child(tx, 'RltdPties');
+    const remittance = children(child(tx, 'RmtInf'), 'Ustrd').map(u => u.textContent?.trim()).filter(Boolean).join(' ');
+
+    return {
+      date,
+      value_date: valueDate ? formatIsoDate(valueDate) : undefined,
+      amount,
+      currency,
+      description: remittance || text(tx, 'AddtlTxInf') || text(entry, 'AddtlNtryInf'),
+      transaction_code: text(tx, 'Refs', 'AcctSvcrRef') || text(tx, 'Refs', 'EndToEndId') || entryRef,
+      partner_name: readPartyName(child(parties, partyRole)),
+      partner_account: readAccountId(child(parties, `${partyRole}Acct`)),
+      type,
+      category: ''
+    };
+  };
+
+  if (splitDetails) {
+    return details.map(tx => {
+      const amountEl = child(tx, 'AmtDtls', 'TxAmt') || tx;
+      return build(tx, readAmount(amountEl), readCurrency(amountEl) || readCurrency(entry));
+    });
+  }
+  return [build(details[0] || null, readAmount(entry), readCurrency(entry))];
+};
+
+/**
+ * Phân tích sao kê ISO 20022 camt.053 (Bank to Customer Statement)
+ */
+export const parseCamt053 = (xml: string): StatementData => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("File XML không hợp lệ.");
+  }
+
+  const statements = Array.from(doc.getElementsByTagNameNS('*', 'Stmt'));
+  if (statements.length === 0) {
+    throw new Error("File XML không phải sao kê camt.053 (không tìm thấy thẻ <Stmt>).");
+  }
+
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+  const acct = child(first, 'Acct');
+
+  const opening = findBalance(first, ['OPBD', 'PRCD']);
+  const closing = findBalance(last, ['CLBD']);
+
+  const fromDate = text(first, 'FrToDt', 'FrDtTm');
+  const toDate = text(last, 'FrToDt', 'ToDtTm');
+  let period = '';
+  if (fromDate && toDate) {
+    period = `${formatIsoDate(fromDate)} - ${formatIsoDate(toDate)}`;
+  } else if (opening && closing) {
+    period = `${opening.date} - ${closing.date}`;
+  }
+
+  const transactions = statements.flatMap(stmt => children(stmt, 'Ntry').flatMap(parseEntry));
+  const balance = children(first, 'Bal')[0] || null;
+  const currency = normalizeCurrencyCode(text(acct, 'Ccy')) || readCurrency(balance) || transactions.find(tx => tx.currency)?.currency;
+
+  return {
+    bankName: text(acct, 'Svcr', 'FinInstnId', 'Nm') || text(acct, 'Svcr', 'FinInstnId', 'BICFI') || text(acct, 'Svcr', 'FinInstnId', 'BIC') || 'camt.053 Import',
+    accountHolder: text(acct, 'Ownr', 'Nm'),
+    accountNumber: readAccountId(acct),
+    period,
+    openingBalance: opening ? opening.amount : undefined,
+    closingBalance: closing ? closing.amount : undefined,
+    currency,
+    transactions: normalizeCategories(normalizeTransactionDates(transactions.map(tx => ({ ...tx, currency: tx.currency || currency }))))
+  };
+};
+
+export const processCamtFile = async (file: File): Promise<StatementData> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return parseCamt053(decodeTextBytes(bytes));
+};
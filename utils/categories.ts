@@ -0,0 +1,106 @@
+import { Transaction } from '../types';
+
+/**
+ * Cải thiện phân loại dựa trên patterns của các giao dịch tương tự và từ khóa
+ * Dùng chung cho mọi bộ đọc sao kê (PDF, Excel, CSV, OFX...); để ở utils để worker đọc Excel không kéo theo pdf.js / SDK AI
+ */
+export const normalizeCategories = (transactions: Transaction[]): Transaction[] => {
+  // 1. Xây dựng map "Partner Name" -> "Category phổ biến nhất" từ dữ liệu đã có
+  const partnerMap: Record<string, Record<string, number>> = {};
+
+  transactions.forEach(tx => {
+    // Chỉ học từ những giao dịch có category rõ ràng (không phải null, rỗng hoặc 'Khác')
+    if (tx.category && tx.category !== 'Khác' && tx.partner_name && tx.partner_name.length > 2) {
+      const key = tx.partner_name.trim().toUpperCase();
+      if (!partnerMap[key]) partnerMap[key] = {};
+      partnerMap[key][tx.category] = (partnerMap[key][tx.category] || 0) + 1;
+    }
+  });
+
+  // Tìm category chiến thắng cho mỗi partner
+  const bestCategoryMap: Record<string, string> = {};
+  Object.keys(partnerMap).forEach(partner => {
+    const categories = partnerMap[partner];
+    let bestCat = '';
+    let maxCount = -1;
+    
+    Object.entries(categories).forEach(([cat, count]) => {
+      if (count > maxCount) {
+        maxCount = count;
+        bestCat = cat;
+      }
+    });
+    bestCategoryMap[partner] = bestCat;
+  });
+
+  // 2. Điền category cho các giao dịch thiếu hoặc 'Khác'
+  return transactions.map(tx => {
+    let newCategory = tx.category;
+    const desc = (tx.description || '').toUpperCase();
+    const partner = (tx.partner_name || '').trim().toUpperCase();
+
+    // Nếu category chưa tốt
+    if (!newCategory || newCategory === 'Khác') {
+      
+      // A. Thử tìm theo Partner Name đã học được
+      if (partner && bestCategoryMap[partner]) {
+        newCategory = bestCategoryMap[partner];
+      }
+
+      // B. Nếu vẫn chưa có, dùng bộ quy tắc từ khóa (Heuristics) - Đã nâng cấp
+      if (!newCategory || newCategory === 'Khác') {
+        // DI CHUYỂN
+        if (desc.includes('GRAB') || desc.includes('BE GROUP') || desc.includes('GOJEK') || desc.includes('XANH SM') || desc.includes('UBER') || desc.includes('XANG') || desc.includes('PETROLIMEX') || desc.includes('VETC') || desc.includes('EPASS') || desc.includes('PARKING') || desc.includes('GUI XE')) {
+          newCategory = 'Di chuyển';
+        
+        // MUA SẮM
+        } else if (desc.includes('SHOPEE') || desc.includes('LAZADA') || desc.includes('TIKI') || desc.includes('TIKTOK') || desc.includes('PAYMENT') || desc.includes('APPLE.COM') || desc.includes('GOOGLE') || desc.includes('FACEBOOK') || desc.includes('ZALOPAY') || desc.includes('MOCA') || desc.includes('VNPAY') || desc.includes('POS') || desc.includes('SIEU THI') || desc.includes('MART') || desc.includes('CONVENIENCE')) {
+          newCategory = 'Mua sắm';
+        } else if (desc.includes('WINMART') || desc.includes('CIRCLE K') || desc.includes('GS25') || desc.includes('7-ELEVEN') || desc.includes('CO.OP') || desc.includes('MINISTOP') || desc.includes('TOP MARKET') || desc.includes('AEON') || desc.includes('UNIQLO')) {
+          newCategory = 'Mua sắm';
+        
+        // ĂN UỐNG
+        } else if (desc.includes('HIGHLANDS') || desc.includes('STARBUCKS') || desc.includes('PHUC LONG') || desc.includes('KFC') || desc.includes('MCDONALD') || desc.includes('LOTTERIA') || desc.includes('NHA HANG') || desc.includes('COFFEE') || desc.includes('CA PHE') || desc.includes('QUAN') || desc.includes('FOOD') || desc.includes('BAEMIN') || desc.includes('PIZZA') || desc.includes('BBQ')) {
+          newCategory = 'Ăn uống';
+        
+        // ĐIỆN NƯỚC NET - Cập nhật logic: Bao gồm cả 'TIEN MUA DIEN'
+        } else if (desc.includes('DIEN LUC') || desc.includes('EVN') || desc.includes('NUOC') || desc.includes('INTERNET') || desc.includes('VNPT') || desc.includes('FPT') || desc.includes('VIETTEL') || desc.includes('MOBIFONE') || desc.includes('VINAPHONE') || desc.includes('TELECOM') || desc.includes('TIEN DIEN') || desc.includes('TIEN MUA DIEN') || desc.includes('MUA DIEN')) {
+          newCategory = 'Điện/Nước/Net';
+        
+        // PHÍ NGÂN HÀNG
+        } else if (desc.includes('PHI') && (desc.includes('SMS') || desc.includes('DICH VU') || desc.includes('QLTK') || desc.includes('THUONG NIEN') || desc.includes('CHUYEN TIEN') || desc.includes('GIAO DICH') || desc.includes('VAT'))) {
+          newCategory = 'Phí ngân hàng';
+        
+        // ĐẦU TƯ
+        } else if (desc.includes('LAI TIEU DUNG') || desc.includes('TIET KIEM') || desc.includes('LAI NHAP GOC') || desc.includes('CHUNG KHOAN') || desc.includes('VPS') || desc.includes('TCBS') || desc.includes('VNDIRECT') || desc.includes('SSI') || desc.includes('DIGITAL ASSET') || desc.includes('INVEST')) {
+          newCategory = 'Đầu tư';
+        
+        // LƯƠNG THƯỞNG
+        } else if (desc.includes('LUONG') || desc.includes('SALARY') || desc.includes('THUONG') || desc.includes('INCOME') || desc.includes('PAYROLL')) {
+          newCategory = 'Lương/Thưởng';
+
+        // GIÁO DỤC
+        } else if (desc.includes('HOC PHI') || desc.includes('SCHOOL') || desc.includes('EDUCATION') || desc.includes('TUITION') || desc.includes('DAI HOC') || desc.includes('TIEU HOC') || desc.includes('MAM NON') || desc.includes('KHOA HOC')) {
+          newCategory = 'Giáo dục';
+
+        // SỨC KHỎE
+        } else if (desc.includes('BENH VIEN') || desc.includes('PHARMACY') || desc.includes('NHA THUOC') || desc.includes('KHAM') || desc.includes('MEDIC') || desc.includes('HEALTH') || desc.includes('SPA')) {
+          newCategory = 'Sức khỏe';
+
+        // GIẢI TRÍ
+        } else if (desc.includes('CGV') || desc.includes('NETFLIX') || desc.includes('SPOTIFY') || desc.includes('YOUTUBE') || desc.includes('CINEMA') || desc.includes('GAME') || desc.includes('STEAM') || desc.includes('KARAOKE')) {
+          newCategory = 'Giải trí';
+
+        // CHUYỂN TIỀN (Cuối cùng)
+        } else if (desc.includes('CHUYEN TIEN') || desc.includes('CK') || desc.includes('IBFT') || desc.includes('NAP') || desc.includes('RUT')) {
+          newCategory = 'Chuyển tiền';
+        }
+      }
+    }
+
+    return {
+      ...tx,
+      category: newCategory || 'Khác'
+    };
+  });
+};
@@ -0,0 +1,75 @@
+import { Transaction, ConfidenceReason } from '../types';
+
+// Dưới ngưỡng này giao dịch được đưa vào danh sách "Cần kiểm tra"
+export const REVIEW_THRESHOLD = 0.75;
+
+// Mức trừ điểm tin cậy của từng lý do (AI tự đánh giá thì dùng luôn điểm AI trả về làm gốc)
+const REASON_PENALTIES: Record<ConfidenceReason, number> = {
+  AI_SELF_REPORTED: 0,
+  SIGN_INFERRED: 0.35,
+  PARTNER_HEURISTIC: 0.1,
+  DATE_REPAIRED: 0.2,
+  DATE_INVALID: 0.6,
+  AMOUNT_CORRECTED: 0.1,
+  AMOUNT_MISMATCH: 0.4,
+  DATE_CORRECTED: 0.1,
+  DATE_MISMATCH: 0.3,
+  CODE_CORRECTED: 0.1,
+  CODE_MISMATCH: 0.2,
+  PAGE_BOUNDARY_REPEAT: 0.4
+};
+
+export const CONFIDENCE_REASON_LABELS: Record<ConfidenceReason, string> = {
+  AI_SELF_REPORTED: 'AI đọc từ ảnh, điểm do AI tự đánh giá',
+  SIGN_INFERRED: 'Chiều tiền vào/ra được đoán theo từ khóa trong nội dung',
+  PARTNER_HEURISTIC: 'Tên đối tác được tách tự động từ nội dung',
+  DATE_REPAIRED: 'Ngày ghi ở dạng lạ, đã được chuẩn hóa lại',
+  DATE_INVALID: 'Không đọc được ngày giao dịch',
+  AMOUNT_CORRECTED: 'Số tiền AI đọc không có trên trang, đã sửa theo số gần giống duy nhất trong file PDF',
+  AMOUNT_MISMATCH: 'Số tiền AI đọc không khớp với số nào trên trang PDF',
+  DATE_CORRECTED: 'Ngày AI đọc không có trên trang, đã sửa theo ngày gần giống duy nhất trong file PDF',
+  DATE_MISMATCH: 'Ngày AI đọc không khớp với ngày nào trên trang PDF',
+  CODE_CORRECTED: 'Mã giao dịch AI đọc không có trên trang, đã sửa theo mã gần giống duy nhất trong file PDF',
+  CODE_MISMATCH: 'Mã giao dịch AI đọc không khớp với mã nào trên trang PDF',
+  PAGE_BOUNDARY_REPEAT: 'Giống hệt dòng cuối trang trước: có thể bị đọc lặp ở chỗ ngắt trang hoặc là hai giao dịch giống nhau'
+};
+
+// Dạng ngày quen thuộc của sao kê: DD/MM/YYYY hoặc YYYY-MM-DD (có thể kèm giờ)
+const STANDARD_DATE = /^(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})([ T]\d{1,2}:\d{2}(:\d{2})?)?$/;
+
+/**
+ * Lý do liên quan tới ngày: không đọc được, hoặc đọc được nhưng phải sửa từ dạng lạ (năm 2 chữ số, tên tháng, chữ xen lẫn...)
+ *
+ * @param raw Giá trị ngày gốc (ô Excel có thể là Date / số serial - coi là chuẩn)
+ */
+export const dateConfidenceReason = (raw: any, isValid: boolean): ConfidenceReason | undefined => {
+  if (!isValid) return 'DATE_INVALID';
+  if (raw instanceof Date || typeof raw === 'number') return undefined;
+  return STANDARD_DATE.test(String(raw ?? '').trim()) ? undefined : 'DATE_REPAIRED';
+};
+
+/**
+ * Gắn thêm lý do và tính lại điểm tin cậy (0..1)
+ *
+ * @param base Điểm gốc; mặc định là điểm hiện có của giao dịch (hoặc 1)
+ */
+export const addConfidenceReasons = (
+  tx: Transaction,
+  reasons: (ConfidenceReason | undefined)[],
+  base: number = tx.confidence ?? 1
+): Transaction => {
+  const added = reasons.filter((r): r is ConfidenceReason => !!r);
+  const penalty = added.reduce((sum, r) => sum + REASON_PENALTIES[r], 0);
+  const confidence = Math.round(Math.min(1, Math.max(0, base - penalty)) * 100) / 100;
+  return {
+    ...tx,
+    confidence,
+    confidence_reasons: Array.from(new Set([...(tx.confidence_reasons || []), ...added]))
+  };
+};
+
+/**
+ * Giao dịch cần người dùng xem lại: điểm thấp và chưa được xác nhận
+ */
+export const needsReview = (tx: Transaction): boolean =>
+  !tx.reviewed && tx.confidence !== undefined && tx.confidence < REVIEW_THRESHOLD;
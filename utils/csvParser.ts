@@ -0,0 +1,184 @@
+import { StatementData } from '../types';
+import { parseStatementRows, ExcelImportOptions } from './excelParser';
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+// Số dòng đầu dùng để đoán dấu phân cách và ký tự bao chuỗi
+const SAMPLE_LINES = 30;
+
+/**
+ * Đoán bảng mã của file CSV.
+ * - Có BOM: dùng theo BOM (UTF-8, UTF-16 LE/BE)
+ * - Không BOM nhưng nhiều byte 0 xen kẽ: UTF-16 không BOM
+ * - UTF-8 hợp lệ: UTF-8, ngược lại coi là Windows-1258 (bảng mã tiếng Việt của Windows)
+ */
+const detectEncoding = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+
+  const sampleLength = Math.min(bytes.length, 2000);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sampleLength; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  if (oddZeros > sampleLength / 8 && oddZeros > evenZeros * 4) return 'utf-16le';
+  if (evenZeros > sampleLength / 8 && evenZeros > oddZeros * 4) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch (error) {
+    return 'windows-1258';
+  }
+};
+
+/**
+ * Đếm số lần xuất hiện của dấu phân cách nằm ngoài chuỗi được bao
+ */
+const countOutsideQuotes = (line: string, delimiter: string, quote: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === quote) inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+/**
+ * Đoán ký tự bao chuỗi: nháy kép (chuẩn RFC 4180) hoặc nháy đơn
+ */
+const detectQuote = (lines: string[], delimiter: string): string => {
+  const score = (quote: string) => lines.reduce((sum, line) => {
+    const starts = line.split(delimiter).filter(field => field.trim().startsWith(quote) && field.trim().endsWith(quote)).length;
+    return sum + starts;
+  }, 0);
+  return score("'") > score('"') ? "'" : '"';
+};
+
+/**
+ * Đoán dấu phân cách: chọn ký tự cho số cột ổn định nhất trên các dòng mẫu.
+ * Các dòng thông tin phía trên tiêu đề thường ít cột hơn nên dùng số cột phổ biến nhất thay vì yêu cầu mọi dòng giống nhau.
+ */
+const detectDelimiter = (lines: string[]): string => {
+  let best = ',';
+  let bestScore = 0;
+
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter, '"'));
+    const frequency: Record<number, number> = {};
+    counts.forEach(c => {
+      if (c > 0) frequency[c] = (frequency[c] || 0) + 1;
+    });
+
+    Object.entries(frequency).forEach(([columns, lineCount]) => {
+      // Ưu tiên số dòng khớp, sau đó đến số cột
+      const score = lineCount * 1000 + Number(columns);
+      if (score > bestScore) {
+        bestScore = score;
+        best = delimiter;
+      }
+    });
+  });
+
+  return best;
+};
+
+/**
+ * Tách nội dung CSV thành các dòng/cột (hỗ trợ xuống dòng và dấu bao kép "" bên trong chuỗi)
+ */
+const parseCsvText = (text: string, delimiter: string, quote = '"'): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === quote && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  // Bỏ các dòng trống hoàn toàn để header detection không bị lệch
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+/**
+ * Giải mã file văn bản thành chuỗi (tự nhận diện bảng mã)
+ */
+export const decodeTextBytes = (bytes: Uint8Array): string => {
+  const encoding = detectEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes);
+  // Windows-1258 dùng dấu thanh tổ hợp: chuẩn hóa về dạng dựng sẵn để so khớp từ khóa
+  return text.replace(/^\uFEFF/, '').normalize('NFC');
+};
+
+/**
+ * Phân tích file CSV sao kê, dùng chung logic nhận diện cột với file Excel
+ */
+export const processCsvFile = async (
+  file: File,
+  onProgress?: (percent: number) => void,
+  options: ExcelImportOptions = {}
+): Promise<StatementData> => {
+  if (onProgress) onProgress(10);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  let text = decodeTextBytes(bytes);
+  if (onProgress) onProgress(30);
+
+  // Excel hay ghi dòng "sep=;" ở đầu file để chỉ định dấu phân cách
+  let delimiter: string | null = null;
+  const sepMatch = text.match(/^sep=(.)\r?\n/i);
+  if (sepMatch) {
+    delimiter = sepMatch[1];
+    text = text.slice(sepMatch[0].length);
+  }
+
+  const sampleLines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, SAMPLE_LINES);
+  delimiter = delimiter || detectDelimiter(sampleLines);
+  const quote = detectQuote(sampleLines, delimiter);
+
+  const rows = parseCsvText(text, delimiter, quote);
+  if (onProgress) onProgress(60);
+
+  const result = parseStatementRows(rows, file.name, options);
+  if (onProgress) onProgress(100);
+
+  return result;
+};
@@ -0,0 +1,92 @@
+import { Transaction } from '../types';
+
+export const DEFAULT_CURRENCY = 'VND';
+
+// Số chữ số thập phân theo ISO 4217 (mặc định 2 cho các loại tiền không có trong bảng)
+const CURRENCY_DECIMALS: Record<string, number> = {
+  VND: 0,
+  JPY: 0,
+  KRW: 0,
+  IDR: 0,
+  LAK: 0,
+  KHR: 0
+};
+
+// Kiểu phân cách số theo loại tiền: VND theo kiểu Việt Nam (1.234.567), ngoại tệ theo kiểu quốc tế (1,234.56)
+const CURRENCY_LOCALES: Record<string, string> = {
+  VND: 'vi-VN'
+};
+const FOREIGN_LOCALE = 'en-US';
+
+// Ký hiệu hay gặp trong sao kê -> mã ISO
+const CURRENCY_SYMBOLS: [RegExp, string][] = [
+  [/₫|đồng/i, 'VND'],
+  [/€/, 'EUR'],
+  [/US\$|\$/, 'USD'],
+  [/£/, 'GBP'],
+  [/¥|円/, 'JPY'],
+  [/₩/, 'KRW']
+];
+
+const KNOWN_CODES = ['VND', 'USD', 'EUR', 'GBP', 'JPY', 'AUD', 'SGD', 'CNY', 'KRW', 'THB', 'CAD', 'CHF', 'HKD', 'TWD'];
+
+export const getCurrencyDecimals = (currency?: string): number =>
+  CURRENCY_DECIMALS[(currency || DEFAULT_CURRENCY).toUpperCase()] ?? 2;
+
+export const getCurrencyLocale = (currency?: string): string =>
+  CURRENCY_LOCALES[(currency || DEFAULT_CURRENCY).toUpperCase()] || FOREIGN_LOCALE;
+
+/**
+ * Chuẩn hóa mã tiền tệ người dùng / file nhập vào (VD: "usd " -> "USD"), rỗng nếu không hợp lệ
+ */
+export const normalizeCurrencyCode = (value?: string): string => {
+  const code = (value || '').trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : '';
+};
+
+/**
+ * Loại tiền của giao dịch: giao dịch tự mang, không có thì theo sao kê, mặc định VND
+ */
+export const getTransactionCurrency = (tx: Transaction, statementCurrency?: string): string =>
+  tx.currency || statementCurrency || DEFAULT_CURRENCY;
+
+/**
+ * Cộng số tiền theo từng loại tiền (không cộng lẫn USD với VND)
+ */
+export const sumByCurrency = (transactions: Transaction[], statementCurrency?: string): Record<string, number> =>
+  transactions.reduce((totals, tx) => {
+    const code = getTransactionCurrency(tx, statementCurrency);
+    totals[code] = (totals[code] || 0) + tx.amount;
+    return totals;
+  }, {} as Record<string, number>);
+
+/**
+ * Đoán loại tiền từ đoạn văn bản (tiêu đề cột "Số tiền (USD)", dòng "Loại tiền: EUR", ký hiệu $ €...)
+ */
+export const detectCurrency = (texts: string[]): string | undefined => {
+  const joined = texts.filter(Boolean).join(' ');
+  if (!joined) return undefined;
+
+  const upper = joined.toUpperCase();
+  const code = KNOWN_CODES.find(c => new RegExp(`(^|[^A-Z])${c}([^A-Z]|$)`).test(upper));
+  if (code) return code;
+
+  return CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(joined))?.[1];
+};
+
+/**
+ * Định dạng số tiền theo kiểu phân cách của loại tiền (VND: 1.234.567, USD: 1,234.56) với số chữ số lẻ của loại tiền
+ */
+export const formatAmount = (value: number, currency?: string): string => {
+  const decimals = getCurrencyDecimals(currency);
+  return new Intl.NumberFormat(getCurrencyLocale(currency), { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(value);
+};
+
+/**
+ * Như formatAmount nhưng kèm mã tiền tệ khi không phải VND (VD: "12.50 USD")
+ */
+export const formatMoney = (value: number, currency?: string): string => {
+  const code = currency || DEFAULT_CURRENCY;
+  const formatted = formatAmount(value, code);
+  return code === DEFAULT_CURRENCY ? formatted : `${formatted} ${code}`;
+};
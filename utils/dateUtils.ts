@@ -0,0 +1,178 @@
+import { Transaction } from '../types';
+import { DateFormat } from './bankProfiles';
+
+export interface NormalizedDate {
+  iso: string;   // YYYY-MM-DD
+  time?: string; // HH:mm hoặc HH:mm:ss
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+const FULL_MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+/**
+ * Tên tháng tiếng Anh viết tắt hoặc đầy đủ ("jan", "sept", "january") -> số tháng; từ khác trả về undefined
+ */
+const monthFromName = (word: string): number | undefined => {
+  const month = MONTH_NAMES[word.slice(0, 3)];
+  if (!month) return undefined;
+  return word === 'sept' || FULL_MONTH_NAMES[month - 1].startsWith(word) ? month : undefined;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Năm 2 chữ số: 00-69 -> 20xx, 70-99 -> 19xx
+ */
+const fullYear = (year: string) => {
+  const n = Number(year);
+  if (year.length > 2) return n;
+  return n < 70 ? 2000 + n : 1900 + n;
+};
+
+const buildDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || year < 1900 || year > 2100) return null;
+  // Kiểm tra ngày có thật (VD: 31/02 không hợp lệ)
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const extractTime = (text: string): string | undefined => {
+  const match = text.match(/(?:^|[\sT])(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return undefined;
+  const [, h, m, s] = match;
+  if (Number(h) > 23 || Number(m) > 59) return undefined;
+  return s ? `${pad(Number(h))}:${m}:${s}` : `${pad(Number(h))}:${m}`;
+};
+
+/**
+ * Chuẩn hóa ngày giao dịch về ISO (YYYY-MM-DD) kèm giờ nếu có.
+ * Hỗ trợ các dạng ngân hàng hay xuất: DD/MM/YYYY, DD-MM-YY, DD.MM.YYYY, YYYY-MM-DD(THH:mm), YYYYMMDD,
+ * số serial Excel, "15 Jan 2024", "15 January 2024", "Jan 15, 2024", "June 3, 2024", "15-JAN-24", "ngày 15 tháng 01 năm 2024".
+ *
+ * @param dateFormat Thứ tự ngày/tháng khi chuỗi không tự rõ (mặc định ngày trước)
+ * @returns null nếu không đọc được ngày hợp lệ
+ */
+export const normalizeDate = (raw: any, dateFormat: DateFormat = 'DMY'): NormalizedDate | null => {
+  if (raw === undefined || raw === null || raw === '') return null;
+
+  if (raw instanceof Date) {
+    if (isNaN(raw.getTime())) return null;
+    const iso = buildDate(raw.getFullYear(), raw.getMonth() + 1, raw.getDate());
+    const hasTime = raw.getHours() !== 0 || raw.getMinutes() !== 0;
+    return iso ? { iso, time: hasTime ? `${pad(raw.getHours())}:${pad(raw.getMinutes())}` : undefined } : null;
+  }
+
+  const text = String(raw).trim();
+
+  // Số serial Excel (ngày tính từ 1899-12-30), phần thập phân là giờ
+  if (/^\d{5}(\.\d+)?$/.test(text) && Number(text) > 20000) {
+    const serial = Number(text);
+    const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+    const iso = buildDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+    const hasTime = date.getUTCHours() !== 0 || date.getUTCMinutes() !== 0;
+    return iso ? { iso, time: hasTime ? `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}` : undefined } : null;
+  }
+
+  // YYYYMMDD (OFX, MT940 đã đổi về dạng này, file xuất từ core banking)
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (compact && /^\d{8}/.test(text)) {
+    const [, y, m, d, h, min, s] = compact;
+    const iso = buildDate(Number(y), Number(m), Number(d));
+    if (iso) return { iso, time: h && Number(h) <= 23 ? (s ? `${h}:${min}:${s}` : `${h}:${min}`) : undefined };
+  }
+
+  const time = extractTime(text);
+
+  // Dạng số: a/b/c với phân cách / - .
+  const numeric = text.match(/(\d{1,4})[\/\-.](\d{1,2})[\/\-.](\d{1,4})/);
+  if (numeric) {
+    const [, a, b, c] = numeric;
+    let year: number, month: number, day: number;
+    if (a.length === 4 || dateFormat === 'YMD') {
+      [year, month, day] = [fullYear(a), Number(b), Number(c)];
+    } else if (dateFormat === 'MDY') {
+      [month, day, year] = [Number(a), Number(b), fullYear(c)];
+    } else {
+      [day, month, year] = [Number(a), Number(b), fullYear(c)];
+    }
+    const iso = buildDate(year, month, day);
+    return iso ? { iso, time } : null;
+  }
+
+  const lower = text.toLowerCase();
+
+  // "ngày 15 tháng 01 năm 2024" / "15 tháng 1, 2024"
+  const vietnamese = lower.match(/(\d{1,2})\s*th[aá]ng\s*(\d{1,2})\s*(?:n[aă]m|,)?\s*(\d{4})/);
+  if (vietnamese) {
+    const iso = buildDate(Number(vietnamese[3]), Number(vietnamese[2]), Number(vietnamese[1]));
+    return iso ? { iso, time } : null;
+  }
+
+  // "15 Jan 2024", "15-JAN-24", "15 January 2024"
+  const dayFirst = lower.match(/(\d{1,2})[\s\-\/.]*([a-z]{3,})[\s\-\/.,]*(\d{2,4})/);
+  const dayFirstMonth = dayFirst && monthFromName(dayFirst[2]);
+  if (dayFirstMonth) {
+    const iso = buildDate(fullYear(dayFirst[3]), dayFirstMonth, Number(dayFirst[1]));
+    return iso ? { iso, time } : null;
+  }
+
+  // "Jan 15, 2024", "June 3, 2024", "January 15th, 2024"
+  const monthFirst = lower.match(/([a-z]{3,})[\s\-.]*(\d{1,2})(?:st|nd|rd|th)?[\s,]+(\d{4})/);
+  const monthFirstMonth = monthFirst && monthFromName(monthFirst[1]);
+  if (monthFirstMonth) {
+    const iso = buildDate(Number(monthFirst[3]), monthFirstMonth, Number(monthFirst[2]));
+    return iso ? { iso, time } : null;
+  }
+
+  return null;
+};
+
+/**
+ * YYYY-MM-DD -> DD/MM/YYYY (dạng hiển thị quen thuộc)
+ */
+export const formatIsoAsDMY = (iso: string): string => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : iso;
+};
+
+/**
+ * Ngày ISO của giao dịch; dữ liệu lưu từ phiên bản cũ chưa có date_iso thì chuẩn hóa lại từ chuỗi ngày
+ */
+export const getTransactionIsoDate = (tx: Transaction): string =>
+  tx.date_iso ?? normalizeDate(tx.date)?.iso ?? '';
+
+/**
+ * Khóa sắp xếp theo thời gian (ngày + giờ); giao dịch không đọc được ngày xếp cuối
+ */
+export const getTransactionSortKey = (tx: Transaction): string => {
+  const iso = getTransactionIsoDate(tx);
+  return iso ? `${iso} ${tx.time || ''}` : '~';
+};
+
+/**
+ * Ngày hiển thị/xuất file: DD/MM/YYYY từ ngày chuẩn hóa, giữ nguyên chuỗi gốc nếu không đọc được
+ */
+export const formatTransactionDate = (tx: Transaction): string => {
+  const iso = getTransactionIsoDate(tx);
+  return iso ? formatIsoAsDMY(iso) : tx.date;
+};
+
+/**
+ * Gắn ngày chuẩn hóa cho danh sách giao dịch; dòng không đọc được ngày được đánh dấu date_invalid
+ */
+export const normalizeTransactionDates = (transactions: Transaction[], dateFormat: DateFormat = 'DMY'): Transaction[] =>
+  transactions.map(tx => {
+    const normalized = normalizeDate(tx.date, dateFormat);
+    const valueDate = tx.value_date ? normalizeDate(tx.value_date, dateFormat)?.iso : undefined;
+    const { date_invalid, ...rest } = tx;
+    return {
+      ...rest,
+      date_iso: normalized?.iso,
+      time: tx.time || normalized?.time,
+      value_date: valueDate ?? (tx.value_date || undefined),
+      ...(normalized ? {} : { date_invalid: true })
+    };
+  });
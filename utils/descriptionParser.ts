@@ -0,0 +1,218 @@
+import { Transaction } from '../types';
+import { findBankByBin, findBankByCode } from './bankCodes';
+
+/**
+ * Hàm làm sạch tên đối tác từ nội dung giao dịch (Phiên bản Regex thuần, không dùng AI)
+ * Tái tạo logic của AI prompt để xử lý file Excel nhanh chóng.
+ * 
+ * @param desc Nội dung giao dịch
+ * @param type Loại giao dịch ('CREDIT' = Tiền vào, 'DEBIT' = Tiền ra)
+ */
+export const extractPartnerName = (desc: string, type: 'CREDIT' | 'DEBIT'): string => {
+  if (!desc) return '';
+  
+  // Normalize: Chuyển về chữ hoa và loại bỏ dấu tiếng Việt để so sánh keyword dễ hơn
+  // Tuy nhiên ta vẫn giữ chuỗi gốc clean để lấy tên có dấu nếu có
+  let clean = desc.toUpperCase();
+  const normalizedSearch = clean.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+  // 0. Clean initial noise (Dãy số đầu câu, ví dụ: "123456 CHUYEN KHOAN")
+  clean = clean.replace(/^[\d\-\.\:\s]+/, '');
+
+  // 1. Xác định danh sách từ khóa (Bao gồm cả có dấu và không dấu)
+  let strictPrefixes: string[] = [];
+  
+  if (type === 'CREDIT') {
+    // Tiền vào: Ưu tiên TỪ
+    strictPrefixes = [
+      'NHAN TU', 'TU:', 'TU ', 'REMITTER', 'FROM', 'NGUOI CHUYEN', 'SENDER', 'CHUYEN TU'
+    ];
+  } else {
+    // Tiền ra: Ưu tiên TỚI, ĐẾN
+    strictPrefixes = [
+      'CHUYEN KHOAN CHO', 'CHUYEN KHOAN TOI', 'CHUYEN SANG', 'CHUYEN TIEN CHO', 'CHUYEN TIEN TOI', 
+      'TOI:', 'TOI ', 'TO:', 'TO ', 'DEN:', 'DEN ', 'THU HUONG', 'BENEFICIARY', 'NGUOI NHAN', 'CHO:'
+    ];
+  }
+
+  // Từ khóa chung 
+  const commonPrefixes = [
+      'MBVCB', 'IBFT', 'CK', 'TRICH NO', 'GIAO DICH', 'PHI', 'INTERNET BANKING', 
+      'BNK', 'PAYMENT', 'SP', 'GD', 'CHUYEN KHOAN', 'CHUYEN TIEN', 'THANH TOAN', 'TRA TIEN', 'NAP TIEN', 'RUT TIEN'
+  ];
+
+  // Logic tìm kiếm:
+  // Bước 1: Thử tìm bằng Strict Prefixes trước (để giải quyết vụ có cả "TỪ" và "TỚI")
+  strictPrefixes.sort((a, b) => b.length - a.length);
+  
+  let foundStrict = false;
+  // Dùng normalizedSearch để tìm vị trí keyword, nhưng cắt string từ clean (để giữ dấu nếu có)
+  for (const p of strictPrefixes) {
+    // Regex tìm từ khóa trong chuỗi không dấu
+    const regex = new RegExp(`${p}[\\s\\:\\.\\-\\;]+`);
+    const match = normalizedSearch.match(regex);
+    
+    if (match && match.index !== undefined) {
+      // Cắt từ vị trí kết thúc match trong chuỗi gốc
+      const endIdx = match.index + match[0].length;
+      clean = clean.substring(endIdx);
+      foundStrict = true;
+      break;
+    }
+  }
+
+  // Bước 2: Nếu không thấy strict, thử common prefixes
+  if (!foundStrict) {
+    commonPrefixes.sort((a, b) => b.length - a.length);
+    for (const p of commonPrefixes) {
+      const regex = new RegExp(`^${p}[\\s\\:\\.\\-\\;]+`);
+      // Check trên chuỗi không dấu
+      if (regex.test(normalizedSearch)) {
+        // Remove prefix khỏi clean string
+        const match = normalizedSearch.match(regex);
+        if (match) {
+            clean = clean.substring(match[0].length);
+        }
+      } else if (normalizedSearch === p) {
+        clean = '';
+      }
+    }
+  }
+
+  // Loại bỏ các ký tự đặc biệt ở đầu nếu còn sót lại (VD: ": NGUYEN VAN A")
+  clean = clean.replace(/^[\-\.\:\;\s]+/, '');
+
+  // 2. Tìm điểm dừng (Stop Markers)
+  const stopMarkers = [
+    ' - ', '. ', ' NOI DUNG ', ' ND ', ' MEMO ', ' REF ', ' TT ', ' PHI ', ' / ',
+    ';', 
+    ' SO GD ' 
+  ];
+  
+  let minIndex = clean.length;
+  for (const m of stopMarkers) {
+    const idx = clean.indexOf(m);
+    if (idx !== -1 && idx < minIndex) {
+      minIndex = idx;
+    }
+  }
+  
+  if (minIndex < clean.length) {
+    clean = clean.substring(0, minIndex);
+  }
+
+  // 3. Xử lý "Dãy số" (Number Sequence) chặn ngay sau tên HOẶC ngay đầu tên (nếu là số tài khoản)
+  // Nếu chuỗi bắt đầu bằng số (VD: "19033... NGUYEN VAN A"), cắt bỏ số
+  const startingNumberMatch = clean.match(/^[\d\s\.]+/);
+  if (startingNumberMatch && startingNumberMatch[0].length > 3) {
+      clean = clean.substring(startingNumberMatch[0].length);
+  }
+  
+  // Nếu có số ở giữa (chặn đuôi)
+  const numberSeqMatch = clean.match(/[\s\:\.]+[\d]{6,}/); // 6 số trở lên mới cắt
+  if (numberSeqMatch && numberSeqMatch.index) {
+    clean = clean.substring(0, numberSeqMatch.index);
+  }
+
+  // Cleanup cuối cùng
+  clean = clean.replace(/^[\-\.\:\;\s]+/, '');
+  
+  if (clean.length > 50) {
+      const lastSpace = clean.lastIndexOf(' ', 50);
+      if (lastSpace > 20) {
+          clean = clean.substring(0, lastSpace);
+      }
+  }
+
+  return clean.trim();
+};
+
+export interface PartnerDetails {
+  account: string; // Số tài khoản đối tác, hoặc "****1234" nếu chỉ có 4 số cuối thẻ
+  bank?: string;   // Tên ngân hàng đối tác
+}
+
+// Chữ hoa, bỏ dấu tiếng Việt để so khớp từ khóa
+const normalizeSearch = (text: string) =>
+  text.toUpperCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/Đ/g, 'D');
+
+// Số tài khoản sau từ khóa "TK" hoặc sau từ chỉ chiều chuyển ("tu 0011004123456", "toi 1903..."), có thể viết tách nhóm "1903 3334 44555"
+const ACCOUNT_KEYWORD = /\b(?:SO TK|STK|TK|TAI KHOAN|ACCOUNT(?: NO)?|ACC(?: NO)?|AC|A\/C|TU|TOI|DEN|SANG|FROM|TO)[\s:.#\-]*(\d{3,}(?:[ .\-]\d{3,})*)(?!\d)/g;
+const ACCOUNT_WORDS = '(?:(?:SO )?TK|STK|TAI KHOAN|ACCOUNT|ACC|AC|A\\/C)?';
+const INCOMING_MARKERS = new RegExp(`\\b(?:TU|FROM|NGUOI CHUYEN|REMITTER)\\b[\\s:.\\-]*${ACCOUNT_WORDS}[\\s:.#\\-]*$`);
+const OUTGOING_MARKERS = new RegExp(`\\b(?:TOI|DEN|TO|CHO|SANG|THU HUONG|BENEFICIARY)\\b[\\s:.\\-]*${ACCOUNT_WORDS}[\\s:.#\\-]*$`);
+const MASKED_CARD = /\d{4,6}[X*]{2,}\d{0,4}?(\d{4})(?!\d)/;
+const CARD_KEYWORD = /\b(?:SO THE|THE|CARD(?: NO)?)[\s:.#\-]*[X*]+(\d{4})(?!\d)/;
+// Kênh giao dịch của chính ngân hàng (MBVCB = Mobile Banking Vietcombank), không phải ngân hàng đối tác
+const CHANNEL_TOKENS = new Set(['MBVCB', 'IBVCB', 'IBFT', 'NAPAS', 'SMS']);
+
+const digitsOnly = (text: string) => text.replace(/\D/g, '');
+// Ngày viết liền (20240115 / 15012024) hay đứng sau "đến"/"từ" trong nội dung, không phải số tài khoản
+const looksLikeDate = (digits: string) =>
+  digits.length === 8 && (/^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/.test(digits) || /^(0[1-9]|[12]\d|3[01])(0[1-9]|1[0-2])(19|20)\d{2}$/.test(digits));
+const isAccountLength = (digits: string) => digits.length >= 6 && digits.length <= 19 && !looksLikeDate(digits);
+
+/**
+ * Số tài khoản ghi sau từ khóa "TK/STK/Account". Có nhiều số thì ưu tiên số đúng chiều tiền:
+ * tiền vào lấy số sau "TỪ/FROM", tiền ra lấy số sau "TỚI/ĐẾN/TO".
+ */
+const findKeywordAccount = (text: string, type?: Transaction['type']): string => {
+  const candidates = Array.from(text.matchAll(ACCOUNT_KEYWORD))
+    .map(m => {
+      const digitsStart = m.index! + m[0].length - m[1].length;
+      return { digits: digitsOnly(m[1]), before: text.slice(Math.max(0, m.index! - 15), digitsStart) };
+    })
+    .filter(c => isAccountLength(c.digits));
+  if (candidates.length === 0) return '';
+
+  const marker = type === 'CREDIT' ? INCOMING_MARKERS : type === 'DEBIT' ? OUTGOING_MARKERS : null;
+  return (marker && candidates.find(c => marker.test(c.before)) || candidates[0]).digits;
+};
+
+/**
+ * Tách số tài khoản / số thẻ và ngân hàng đối tác từ nội dung giao dịch.
+ * Nhận diện mã BIN NAPAS (970436 ...), tên viết tắt ngân hàng (VCB, TCB, MB...) và số tài khoản
+ * đứng sau từ khóa "TK", hoặc đứng cạnh mã ngân hàng ("970436 0011004123456", "VCB 0011004123456").
+ *
+ * @param type Loại giao dịch, dùng để chọn đúng số tài khoản khi nội dung có cả bên chuyển và bên nhận
+ */
+export const extractPartnerDetails = (desc: string, type?: Transaction['type']): PartnerDetails => {
+  if (!desc) return { account: '' };
+  const text = normalizeSearch(desc);
+  const tokens = text.split(/[^A-Z0-9]+/).filter(Boolean);
+
+  // 1. Ngân hàng: mã BIN trước (chính xác), sau đó tới tên viết tắt
+  const binIndex = tokens.findIndex(t => /^\d{6}$/.test(t) && findBankByBin(t));
+  const codeIndex = tokens.findIndex(t => !CHANNEL_TOKENS.has(t) && findBankByCode(t));
+  const bankIndex = binIndex !== -1 ? binIndex : codeIndex;
+  const bank = bankIndex === -1 ? undefined : (findBankByBin(tokens[bankIndex]) || findBankByCode(tokens[bankIndex]))?.name;
+
+  // 2. Số tài khoản: sau từ khóa, hoặc ngay cạnh mã ngân hàng
+  let account = findKeywordAccount(text, type);
+  if (!account && bankIndex !== -1) {
+    const neighbour = [tokens[bankIndex + 1], tokens[bankIndex - 1]].find(t => t && /^\d+$/.test(t) && isAccountLength(t));
+    account = neighbour || '';
+  }
+
+  // 3. Không có số tài khoản: 4 số cuối thẻ (giao dịch thẻ, rút tiền ATM)
+  if (!account) {
+    const card = text.match(MASKED_CARD) || text.match(CARD_KEYWORD);
+    if (card) account = `****${card[1]}`;
+  }
+
+  return { account, bank };
+};
+
+/**
+ * Bổ sung số tài khoản và ngân hàng đối tác còn trống (AI / file không có cột riêng) từ nội dung giao dịch
+ */
+export const enrichPartnerDetails = (transactions: Transaction[]): Transaction[] =>
+  transactions.map(tx => {
+    if (tx.partner_account && tx.partner_bank) return tx;
+    const details = extractPartnerDetails(tx.description, tx.type);
+    return {
+      ...tx,
+      partner_account: tx.partner_account || details.account,
+      partner_bank: tx.partner_bank || details.bank
+    };
+  });
@@ -0,0 +1,67 @@
+import { StatementData } from '../types';
+import { parseExcelWorkbook, ExcelImportOptions, ExcelProgressCallback, HeaderNotFoundError, SheetSelectionRequiredError } from './excelParser';
+import { getMappingTemplates } from './mappingTemplates';
+import type { ExcelWorkerRequest, ExcelWorkerResponse, ExcelWorkerError } from '../workers/excelWorker';
+
+/**
+ * Dựng lại lỗi gốc từ dữ liệu worker gửi về để App xử lý như khi parse trên main thread
+ */
+const restoreError = (error: ExcelWorkerError): Error => {
+  if (error.name === 'HeaderNotFoundError') return new HeaderNotFoundError(error.preview || [], error.sheetName || '');
+  if (error.name === 'SheetSelectionRequiredError') return new SheetSelectionRequiredError(error.sheets || []);
+  return new Error(error.message);
+};
+
+/**
+ * Chạy parseExcelWorkbook trong Web Worker, chuyển tiến độ về main thread theo từng bước
+ */
+const runExcelWorker = (data: ArrayBuffer, options: ExcelImportOptions, onProgress?: ExcelProgressCallback): Promise<StatementData> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/excelWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<ExcelWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.percent, message.message);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') resolve(message.data);
+      else reject(restoreError(message.error));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Lỗi khi xử lý file Excel."));
+    };
+
+    const request: ExcelWorkerRequest = { data, options };
+    // Chuyển quyền sở hữu buffer cho worker thay vì sao chép (file lớn)
+    worker.postMessage(request, [data]);
+  });
+};
+
+/**
+ * Phân tích file Excel sao kê. Việc đọc / trích xuất chạy trong Web Worker để file lớn không làm đơ giao diện.
+ */
+export const processExcelFile = async (
+  file: File,
+  onProgress?: ExcelProgressCallback,
+  options: ExcelImportOptions = {}
+): Promise<StatementData> => {
+  let data: ArrayBuffer;
+  try {
+    data = await file.arrayBuffer();
+  } catch (err) {
+    throw new Error("Lỗi đọc file Excel");
+  }
+  onProgress?.(10, 'Đang đọc file Excel...');
+
+  // Template cột lưu trong localStorage: đọc ở đây vì worker không truy cập được
+  const withTemplates = { ...options, templates: options.templates ?? getMappingTemplates() };
+
+  // Trình duyệt không hỗ trợ Web Worker: parse ngay trên main thread
+  if (typeof Worker === 'undefined') {
+    return parseExcelWorkbook(new Uint8Array(data), onProgress, withTemplates);
+  }
+  return runExcelWorker(data, withTemplates, onProgress);
+};
@@ -1,162 +1,203 @@
 import { read, utils } from 'xlsx';
-import { Transaction, StatementData } from '../types';
-import { normalizeCategories } from '../services/geminiService';
+import { Transaction, StatementData, ConfidenceReason } from '../types';
+import { normalizeCategories } from './categories';
+import { normalizeDate, normalizeTransactionDates } from './dateUtils';
+import { parseCurrencyAmount } from './amountUtils';
+import { extractPartnerName, extractPartnerDetails } from './descriptionParser';
+import { readStatementMetadata, inferPeriod } from './statementMetadata';
+import { addConfidenceReasons, dateConfidenceReason } from './confidence';
+import { detectCurrency, DEFAULT_CURRENCY } from './currency';
+import { detectBankProfile, normalizeLabel, ColumnMap, DateFormat, HeaderDetection } from './bankProfiles';
+import { findMappingTemplate, MappingTemplate } from './mappingTemplates';
+
+// Số dòng đầu sheet gửi cho wizard gán cột khi không tự nhận diện được tiêu đề
+const PREVIEW_ROW_COUNT = 30;
 
 /**
- * Hàm làm sạch tên đối tác từ nội dung giao dịch (Phiên bản Regex thuần, không dùng AI)
- * Tái tạo logic của AI prompt để xử lý file Excel nhanh chóng.
- * 
- * @param desc Nội dung giao dịch
- * @param type Loại giao dịch ('CREDIT' = Tiền vào, 'DEBIT' = Tiền ra)
+ * Lỗi khi không tìm thấy dòng tiêu đề: mang theo các dòng đầu sheet để người dùng tự gán cột
  */
-const extractPartnerName = (desc: string, type: 'CREDIT' | 'DEBIT'): string => {
-  if (!desc) return '';
-  
-  // Normalize: Chuyển về chữ hoa và loại bỏ dấu tiếng Việt để so sánh keyword dễ hơn
-  // Tuy nhiên ta vẫn giữ chuỗi gốc clean để lấy tên có dấu nếu có
-  let clean = desc.toUpperCase();
-  const normalizedSearch = clean.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+export class HeaderNotFoundError extends Error {
+  preview: any[][];
+  sheetName: string;
+
+  constructor(preview: any[][], sheetName: string) {
+    super("Không tìm thấy dòng tiêu đề hợp lệ. Vui lòng kiểm tra file Excel.");
+    this.name = 'HeaderNotFoundError';
+    this.preview = preview;
+    this.sheetName = sheetName;
+  }
+}
 
-  // 0. Clean initial noise (Dãy số đầu câu, ví dụ: "123456 CHUYEN KHOAN")
-  clean = clean.replace(/^[\d\-\.\:\s]+/, '');
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+  detected: boolean; // Đã nhận diện được dòng tiêu đề
+  bankName?: string;
+}
 
-  // 1. Xác định danh sách từ khóa (Bao gồm cả có dấu và không dấu)
-  let strictPrefixes: string[] = [];
-  
-  if (type === 'CREDIT') {
-    // Tiền vào: Ưu tiên TỪ
-    strictPrefixes = [
-      'NHAN TU', 'TU:', 'TU ', 'REMITTER', 'FROM', 'NGUOI CHUYEN', 'SENDER', 'CHUYEN TU'
-    ];
-  } else {
-    // Tiền ra: Ưu tiên TỚI, ĐẾN
-    strictPrefixes = [
-      'CHUYEN KHOAN CHO', 'CHUYEN KHOAN TOI', 'CHUYEN SANG', 'CHUYEN TIEN CHO', 'CHUYEN TIEN TOI', 
-      'TOI:', 'TOI ', 'TO:', 'TO ', 'DEN:', 'DEN ', 'THU HUONG', 'BENEFICIARY', 'NGUOI NHAN', 'CHO:'
-    ];
+/**
+ * Workbook có nhiều sheet hợp lệ: cần người dùng chọn sheet để nhập
+ */
+export class SheetSelectionRequiredError extends Error {
+  sheets: SheetSummary[];
+
+  constructor(sheets: SheetSummary[]) {
+    super("File Excel có nhiều sheet sao kê. Vui lòng chọn sheet cần nhập.");
+    this.name = 'SheetSelectionRequiredError';
+    this.sheets = sheets;
   }
+}
 
-  // Từ khóa chung 
-  const commonPrefixes = [
-      'MBVCB', 'IBFT', 'CK', 'TRICH NO', 'GIAO DICH', 'PHI', 'INTERNET BANKING', 
-      'BNK', 'PAYMENT', 'SP', 'GD', 'CHUYEN KHOAN', 'CHUYEN TIEN', 'THANH TOAN', 'TRA TIEN', 'NAP TIEN', 'RUT TIEN'
-  ];
+export interface ExcelImportOptions {
+  mapping?: HeaderDetection; // Cách gán cột do người dùng chọn trong wizard
+  mappingSheet?: string;     // Sheet áp dụng cách gán cột trên
+  sheetNames?: string[];     // Các sheet người dùng chọn nhập
+  templates?: MappingTemplate[]; // Template cột đã lưu (mặc định đọc từ localStorage)
+}
 
-  // Logic tìm kiếm:
-  // Bước 1: Thử tìm bằng Strict Prefixes trước (để giải quyết vụ có cả "TỪ" và "TỚI")
-  strictPrefixes.sort((a, b) => b.length - a.length);
-  
-  let foundStrict = false;
-  // Dùng normalizedSearch để tìm vị trí keyword, nhưng cắt string từ clean (để giữ dấu nếu có)
-  for (const p of strictPrefixes) {
-    // Regex tìm từ khóa trong chuỗi không dấu
-    const regex = new RegExp(`${p}[\\s\\:\\.\\-\\;]+`);
-    const match = normalizedSearch.match(regex);
-    
-    if (match && match.index !== undefined) {
-      // Cắt từ vị trí kết thúc match trong chuỗi gốc
-      const endIdx = match.index + match[0].length;
-      clean = clean.substring(endIdx);
-      foundStrict = true;
-      break;
-    }
-  }
+// Tiến độ kèm mô tả bước đang chạy (hiện dưới thanh tiến độ)
+export type ExcelProgressCallback = (percent: number, message?: string) => void;
 
-  // Bước 2: Nếu không thấy strict, thử common prefixes
-  if (!foundStrict) {
-    commonPrefixes.sort((a, b) => b.length - a.length);
-    for (const p of commonPrefixes) {
-      const regex = new RegExp(`^${p}[\\s\\:\\.\\-\\;]+`);
-      // Check trên chuỗi không dấu
-      if (regex.test(normalizedSearch)) {
-        // Remove prefix khỏi clean string
-        const match = normalizedSearch.match(regex);
-        if (match) {
-            clean = clean.substring(match[0].length);
-        }
-      } else if (normalizedSearch === p) {
-        clean = '';
-      }
-    }
-  }
+const OPENING_BALANCE_LABELS = ['so du dau ky', 'so du dau', 'opening balance', 'beginning balance', 'balance brought forward'];
+const CLOSING_BALANCE_LABELS = ['so du cuoi ky', 'so du cuoi', 'closing balance', 'ending balance'];
 
-  // Loại bỏ các ký tự đặc biệt ở đầu nếu còn sót lại (VD: ": NGUYEN VAN A")
-  clean = clean.replace(/^[\-\.\:\;\s]+/, '');
+/**
+ * Tìm dòng "Số dư đầu kỳ" / "Số dư cuối kỳ" và lấy giá trị số cuối cùng trên dòng đó
+ */
+const findLabeledBalance = (row: any[], labels: string[], currency: string): number | undefined => {
+  const labelIdx = row.findIndex(cell => {
+    const val = normalizeLabel(cell);
+    return val !== '' && labels.some(l => val.includes(l));
+  });
+  if (labelIdx === -1) return undefined;
 
-  // 2. Tìm điểm dừng (Stop Markers)
-  const stopMarkers = [
-    ' - ', '. ', ' NOI DUNG ', ' ND ', ' MEMO ', ' REF ', ' TT ', ' PHI ', ' / ',
-    ';', 
-    ' SO GD ' 
-  ];
-  
-  let minIndex = clean.length;
-  for (const m of stopMarkers) {
-    const idx = clean.indexOf(m);
-    if (idx !== -1 && idx < minIndex) {
-      minIndex = idx;
+  for (let c = row.length - 1; c > labelIdx; c--) {
+    const cell = row[c];
+    if (cell === null || cell === undefined || cell === '') continue;
+    if (typeof cell === 'number' || /\d/.test(String(cell))) {
+      return parseCurrencyAmount(cell, currency);
     }
   }
-  
-  if (minIndex < clean.length) {
-    clean = clean.substring(0, minIndex);
-  }
+  // Nhãn và số có thể nằm chung một ô: "Số dư đầu kỳ: 1.000.000"
+  const inline = String(row[labelIdx]).match(/[\-(]?[\d.,]*\d[\d.,]*\)?\s*$/);
+  return inline ? parseCurrencyAmount(inline[0], currency) : undefined;
+};
 
-  // 3. Xử lý "Dãy số" (Number Sequence) chặn ngay sau tên HOẶC ngay đầu tên (nếu là số tài khoản)
-  // Nếu chuỗi bắt đầu bằng số (VD: "19033... NGUYEN VAN A"), cắt bỏ số
-  const startingNumberMatch = clean.match(/^[\d\s\.]+/);
-  if (startingNumberMatch && startingNumberMatch[0].length > 3) {
-      clean = clean.substring(startingNumberMatch[0].length);
-  }
-  
-  // Nếu có số ở giữa (chặn đuôi)
-  const numberSeqMatch = clean.match(/[\s\:\.]+[\d]{6,}/); // 6 số trở lên mới cắt
-  if (numberSeqMatch && numberSeqMatch.index) {
-    clean = clean.substring(0, numberSeqMatch.index);
-  }
+// Từ khóa nhận diện cột cho heuristic chung (Lowercase + Normalized)
+const HEADER_KEYWORDS = {
+  date: ['ngay', 'ngày', 'date', 'time', 'thời gian', 'tnx date', 'ngay gd'],
+  balance: ['so du', 'số dư', 'balance', 'sodu'],
+  amount: ['so tien', 'số tiền', 'amount', 'phát sinh', 'giá trị', 'ps co', 'ps no', 'sotien', 'vnd'], 
+  credit: ['ghi co', 'ghi có', 'credit', 'tiền vào', 'thu', 'cr', 'so tien ghi co', 'c', 'phat sinh co'],
+  debit: ['ghi no', 'ghi nợ', 'debit', 'tiền ra', 'chi', 'dr', 'so tien ghi no', 'd', 'phat sinh no'], 
+  description: ['noi dung', 'nội dung', 'dien giai', 'diễn giải', 'description', 'memo', 'remark', 'chi tiết', 'transactions in detail', 'detail', 'noi dung chi tiet'],
+  code: ['ma gd', 'mã gd', 'ref', 'reference', 'code', 'tham chiếu', 'số ct', 'doc no', 'seq', 'so chung tu']
+};
 
-  // Cleanup cuối cùng
-  clean = clean.replace(/^[\-\.\:\;\s]+/, '');
-  
-  if (clean.length > 50) {
-      const lastSpace = clean.lastIndexOf(' ', 50);
-      if (lastSpace > 20) {
-          clean = clean.substring(0, lastSpace);
-      }
-  }
+/**
+ * So khớp từ khóa tiêu đề. Từ khóa ngắn (<= 3 ký tự như 'c', 'd', 'cr', 'thu') phải khớp nguyên một từ,
+ * tránh trường hợp 'd' khớp với hầu hết mọi tiêu đề.
+ */
+const matchesKeyword = (val: string, keyword: string): boolean => {
+  if (keyword.length > 3) return val.includes(keyword);
+  return val.split(/[^\p{L}\p{N}]+/u).includes(keyword);
+};
+
+/**
+ * Heuristic chung: quét 100 dòng đầu, dòng đầu tiên có cột Ngày và cột tiền được coi là tiêu đề
+ */
+const detectGenericHeader = (rawData: any[][]): HeaderDetection | null => {
+  for (let i = 0; i < Math.min(100, rawData.length); i++) {
+    const row = rawData[i];
+    if (!row || !Array.isArray(row)) continue;
 
-  return clean.trim();
+    const tempMap: ColumnMap = {};
+    
+    row.forEach((cell: any, colIdx: number) => {
+       if (cell === null || cell === undefined) return;
+       const val = String(cell)
+          .toLowerCase()
+          .replace(/[\n\r\t]+/g, ' ')
+          .trim()
+          .normalize('NFC');
+       
+       if (!val) return;
+       const matches = (keywords: string[]) => keywords.some(k => matchesKeyword(val, k));
+       
+       if (matches(HEADER_KEYWORDS.date)) { 
+           tempMap.date = colIdx; 
+       }
+       // Kiểm tra Số dư trước Credit/Debit vì "số dư" chứa ký tự 'd'
+       else if (matches(HEADER_KEYWORDS.balance)) {
+           tempMap.balance = colIdx;
+       }
+       else if (matches(HEADER_KEYWORDS.credit)) { 
+           tempMap.credit = colIdx; 
+       }
+       else if (matches(HEADER_KEYWORDS.debit)) { 
+           tempMap.debit = colIdx; 
+       }
+       else if (
+           matches(HEADER_KEYWORDS.amount) && 
+           !val.includes('ghi nợ') && 
+           !val.includes('ghi có')
+       ) { 
+           tempMap.amount = colIdx; 
+       }
+       else if (matches(HEADER_KEYWORDS.description)) { 
+           tempMap.description = colIdx; 
+       }
+       else if (matches(HEADER_KEYWORDS.code)) { 
+           tempMap.code = colIdx; 
+       }
+    });
+
+    const hasMoneyColumn = tempMap.amount !== undefined || (tempMap.credit !== undefined && tempMap.debit !== undefined);
+    
+    if (tempMap.date !== undefined && hasMoneyColumn) {
+       return { headerRowIndex: i, colMap: tempMap };
+    }
+  }
+  return null;
 };
 
+const toDMY = (dateObj: Date) =>
+  `${dateObj.getDate().toString().padStart(2,'0')}/${(dateObj.getMonth()+1).toString().padStart(2,'0')}/${dateObj.getFullYear()}`;
+
 /**
- * Helper: Parse số tiền Việt Nam an toàn - STRICT MODE
- * Loại bỏ TOÀN BỘ dấu chấm (.) và phẩy (,) nếu chúng có vẻ là phân cách ngàn.
- * Khắc phục triệt để lỗi: 1.000.000 bị hiểu nhầm là 1.
+ * Chuyển ô ngày (Date object, số serial Excel hoặc chuỗi) về dạng DD/MM/YYYY theo định dạng của ngân hàng
  */
-const parseVNAmount = (val: any): number => {
-  if (typeof val === 'number') return val;
-  if (!val) return 0;
-  
-  let str = String(val).trim();
-  
-  // 1. Loại bỏ ký tự tiền tệ và khoảng trắng
-  str = str.replace(/[₫VND\s]/gi, '');
+const formatDateCell = (rawDate: any, dateFormat: DateFormat): string => {
+  if (rawDate instanceof Date) return toDMY(rawDate);
 
-  // 2. Xử lý số âm trong ngoặc: (5000) -> -5000
-  if (str.startsWith('(') && str.endsWith(')')) {
-    str = '-' + str.slice(1, -1);
+  const dateStr = String(rawDate).trim();
+  if (!isNaN(Number(dateStr)) && Number(dateStr) > 20000) { 
+    return toDMY(new Date(Math.round((Number(dateStr) - 25569) * 86400 * 1000)));
   }
 
-  // 3. LOGIC MỚI: Dọn sạch dấu chấm và phẩy để lấy số nguyên
-  // Hầu hết sao kê VN dùng dấu phân cách ngàn, rất ít khi dùng số thập phân (trừ khi là lãi suất lẻ)
-  // Nếu chuỗi có dạng "1.000.000" hoặc "1,000,000", ta muốn kết quả là 1000000.
-  
-  // Loại bỏ tất cả dấu chấm và phẩy
-  const cleanStr = str.replace(/[\.,]/g, '');
-  
-  const parsed = parseFloat(cleanStr);
-  
-  return isNaN(parsed) ? 0 : parsed;
+  const match = dateStr.match(/^(\d{1,4})[\/\-.](\d{1,2})[\/\-.](\d{1,4})(.*)$/);
+  if (!match) return dateStr;
+
+  const [, a, b, c, rest] = match;
+  let day: string, month: string, year: string;
+  if (a.length === 4 || dateFormat === 'YMD') { // YYYY-MM-DD
+    [year, month, day] = [a, b, c];
+  } else if (dateFormat === 'MDY') {
+    [month, day, year] = [a, b, c];
+  } else {
+    [day, month, year] = [a, b, c];
+  }
+  return `${day.padStart(2,'0')}/${month.padStart(2,'0')}/${year}${rest}`;
+};
+
+// Thông số trích xuất / lượng dùng AI lưu dạng JSON trong sheet METADATA_BACKUP (bản backup cũ không có)
+const parseJsonMeta = (value: any): any => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(String(value));
+  } catch (error) {
+    return undefined;
+  }
 };
 
 /**
@@ -181,242 +222,297 @@ const parseBackupExcel = (workbook: any): StatementData => {
 
   // 2. Parse Transactions
   const rawTxs = utils.sheet_to_json(txSheet) as any[];
-  const transactions: Transaction[] = rawTxs.map((row: any) => ({
+  const transactions: Transaction[] = normalizeTransactionDates(rawTxs.map((row: any) => ({
     date: String(row.date || ''),
+    time: row.time ? String(row.time) : undefined,
+    value_date: row.value_date ? String(row.value_date) : undefined,
     amount: Number(row.amount || 0),
+    currency: row.currency ? String(row.currency) : undefined,
     description: String(row.description || ''),
     transaction_code: String(row.transaction_code || ''),
     partner_name: String(row.partner_name || ''),
     partner_account: String(row.partner_account || ''),
+    partner_bank: row.partner_bank ? String(row.partner_bank) : undefined,
     type: (row.type === 'CREDIT' ? 'CREDIT' : 'DEBIT'),
-    category: String(row.category || 'Khác')
-  }));
+    category: String(row.category || 'Khác'),
+    balance: row.balance !== undefined && row.balance !== '' ? Number(row.balance) : undefined,
+    confidence: row.confidence !== undefined && row.confidence !== '' ? Number(row.confidence) : undefined,
+    confidence_reasons: row.confidence_reasons ? String(row.confidence_reasons).split(',') as ConfidenceReason[] : undefined,
+    reviewed: row.reviewed ? true : undefined
+  })));
 
   return {
     id: meta.id,
     fileName: meta.fileName || 'Restored_Backup.xlsx',
     bankName: meta.bankName,
     accountHolder: meta.accountHolder,
+    accountNumber: meta.accountNumber ? String(meta.accountNumber) : undefined,
     period: meta.period,
+    openingBalance: meta.openingBalance !== undefined ? Number(meta.openingBalance) : undefined,
+    closingBalance: meta.closingBalance !== undefined ? Number(meta.closingBalance) : undefined,
+    currency: meta.currency ? String(meta.currency) : undefined,
+    extractionSettings: parseJsonMeta(meta.extractionSettings),
+    usage: parseJsonMeta(meta.usage),
     savedAt: meta.savedAt ? Number(meta.savedAt) : Date.now(),
     transactions: transactions
   };
 };
 
 /**
- * Phân tích file Excel sao kê
+ * Nhận diện dòng tiêu đề của một sheet: mẫu đã lưu > profile ngân hàng > heuristic chung
+ * Exported để dùng chung cho bộ đọc lớp văn bản PDF
+ */
+export const detectSheetHeader = (rawData: any[][], sheetName: string, templates?: MappingTemplate[]): HeaderDetection | null => {
+  return findMappingTemplate(rawData, templates)
+    || detectBankProfile(rawData, sheetName)
+    || detectGenericHeader(rawData);
+};
+
+/**
+ * Trích xuất giao dịch từ một sheet đã xác định được dòng tiêu đề
  */
-export const processExcelFile = async (
-  file: File, 
-  onProgress?: (percent: number) => void
-): Promise<StatementData> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        if (onProgress) onProgress(20);
-
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = read(data, { type: 'array', cellDates: true }); 
-        
-        // --- LOGIC PHÁT HIỆN BACKUP ---
-        // Nếu file có sheet "METADATA_BACKUP", xử lý như file backup
-        if (workbook.SheetNames.includes('METADATA_BACKUP')) {
-           if (onProgress) onProgress(50);
-           const restoredData = parseBackupExcel(workbook);
-           if (onProgress) onProgress(100);
-           resolve(restoredData);
-           return;
-        }
-        // ------------------------------
-
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        const rawData = utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
-        
-        if (onProgress) onProgress(40);
-
-        if (!rawData || rawData.length === 0) {
-          throw new Error("File Excel trống hoặc không đọc được dữ liệu.");
-        }
-
-        // 1. Tìm dòng Header
-        let headerRowIndex = -1;
-        const colMap: Record<string, number> = {};
-
-        // Từ khóa nhận diện cột (Lowercase + Normalized)
-        const keywords = {
-          date: ['ngay', 'ngày', 'date', 'time', 'thời gian', 'tnx date', 'ngay gd'],
-          amount: ['so tien', 'số tiền', 'amount', 'phát sinh', 'giá trị', 'ps co', 'ps no', 'sotien', 'vnd'], 
-          credit: ['ghi co', 'ghi có', 'credit', 'tiền vào', 'thu', 'cr', 'so tien ghi co', 'c', 'phat sinh co'],
-          debit: ['ghi no', 'ghi nợ', 'debit', 'tiền ra', 'chi', 'dr', 'so tien ghi no', 'd', 'phat sinh no'], 
-          description: ['noi dung', 'nội dung', 'dien giai', 'diễn giải', 'description', 'memo', 'remark', 'chi tiết', 'transactions in detail', 'detail', 'noi dung chi tiet'],
-          code: ['ma gd', 'mã gd', 'ref', 'reference', 'code', 'tham chiếu', 'số ct', 'doc no', 'seq', 'so chung tu']
-        };
-
-        // Quét 100 dòng đầu
-        for (let i = 0; i < Math.min(100, rawData.length); i++) {
-          const row = rawData[i];
-          if (!row || !Array.isArray(row)) continue;
-
-          const tempMap: Record<string, number> = {};
-          
-          row.forEach((cell: any, colIdx: number) => {
-             if (cell === null || cell === undefined) return;
-             const val = String(cell)
-                .toLowerCase()
-                .replace(/[\n\r\t]+/g, ' ')
-                .trim()
-                .normalize('NFC');
-             
-             if (!val) return;
-             
-             if (keywords.date.some(k => val.includes(k))) { 
-                 tempMap.date = colIdx; 
-             }
-             else if (keywords.credit.some(k => val.includes(k))) { 
-                 tempMap.credit = colIdx; 
-             }
-             else if (keywords.debit.some(k => val.includes(k))) { 
-                 tempMap.debit = colIdx; 
-             }
-             else if (
-                 keywords.amount.some(k => val.includes(k)) && 
-                 !val.includes('số dư') && 
-                 !val.includes('balance') &&
-                 !val.includes('ghi nợ') && 
-                 !val.includes('ghi có')
-             ) { 
-                 tempMap.amount = colIdx; 
-             }
-             else if (keywords.description.some(k => val.includes(k))) { 
-                 tempMap.description = colIdx; 
-             }
-             else if (keywords.code.some(k => val.includes(k))) { 
-                 tempMap.code = colIdx; 
-             }
-          });
-
-          const hasMoneyColumn = tempMap.amount !== undefined || (tempMap.credit !== undefined && tempMap.debit !== undefined);
-          
-          if (tempMap.date !== undefined && hasMoneyColumn) {
-             headerRowIndex = i;
-             Object.assign(colMap, tempMap);
-             break;
-          }
-        }
-
-        if (headerRowIndex === -1) {
-           throw new Error("Không tìm thấy dòng tiêu đề hợp lệ. Vui lòng kiểm tra file Excel.");
-        }
-
-        if (onProgress) onProgress(60);
-
-        // 2. Trích xuất dữ liệu
-        let transactions: Transaction[] = [];
-        
-        for (let i = headerRowIndex + 1; i < rawData.length; i++) {
-          const row = rawData[i];
-          if (!row || row.length === 0) continue;
-
-          // Lấy Date
-          let rawDate = row[colMap.date];
-          if (rawDate === undefined || rawDate === null || rawDate === '') continue;
-
-          let dateStr = '';
-          if (rawDate instanceof Date) {
-             dateStr = `${rawDate.getDate().toString().padStart(2,'0')}/${(rawDate.getMonth()+1).toString().padStart(2,'0')}/${rawDate.getFullYear()}`;
-          } else {
-             dateStr = String(rawDate).trim();
-             if (!isNaN(Number(dateStr)) && Number(dateStr) > 20000) { 
-                const dateObj = new Date(Math.round((Number(dateStr) - 25569) * 86400 * 1000));
-                dateStr = `${dateObj.getDate().toString().padStart(2,'0')}/${(dateObj.getMonth()+1).toString().padStart(2,'0')}/${dateObj.getFullYear()}`;
-             } else if (dateStr.includes('-')) {
-                 const parts = dateStr.split('-');
-                 if (parts[0].length === 4) { // YYYY-MM-DD
-                     dateStr = `${parts[2]}/${parts[1]}/${parts[0]}`;
-                 } else { // DD-MM-YYYY
-                     dateStr = `${parts[0]}/${parts[1]}/${parts[2]}`;
-                 }
-             }
-          }
-
-          // Lấy Description
-          const desc = colMap.description !== undefined ? String(row[colMap.description] || '').trim() : '';
-
-          // Lấy Amount và Type
-          let amount = 0;
-          let type: 'CREDIT' | 'DEBIT' = 'CREDIT';
-
-          if (colMap.credit !== undefined && colMap.debit !== undefined) {
-            let creditVal = parseVNAmount(row[colMap.credit]);
-            let debitVal = parseVNAmount(row[colMap.debit]);
-
-            if (creditVal > 0) {
-              amount = creditVal;
-              type = 'CREDIT';
-            } else if (debitVal > 0) {
-              amount = debitVal;
-              type = 'DEBIT';
-            } else {
-               continue; 
-            }
-          } else if (colMap.amount !== undefined) {
-             let val = parseVNAmount(row[colMap.amount]);
-             
-             if (val === 0) continue;
-
-             if (val < 0) {
-               amount = Math.abs(val);
-               type = 'DEBIT';
-             } else {
-               amount = val;
-               const upperDesc = desc.toUpperCase();
-               if (upperDesc.includes('PHI ') || upperDesc.startsWith('TRICH NO') || upperDesc.startsWith('RUT TIEN') || upperDesc.includes('THU PHI') || upperDesc.includes('PAYMENT') || upperDesc.includes('DEBIT')) {
-                 type = 'DEBIT';
-               } else {
-                 type = 'CREDIT'; 
-               }
-             }
-          }
-
-          // Lấy Partner Name (Passing Type to Helper for Strict Logic)
-          const partnerName = extractPartnerName(desc, type);
-
-          transactions.push({
-            date: dateStr,
-            amount: amount,
-            description: desc,
-            transaction_code: colMap.code !== undefined ? String(row[colMap.code] || '') : '',
-            partner_name: partnerName,
-            partner_account: '', 
-            type: type,
-            category: '' 
-          });
-        }
-
-        if (onProgress) onProgress(80);
-
-        // 3. Chuẩn hóa Category và Partner
-        transactions = normalizeCategories(transactions);
-
-        if (onProgress) onProgress(100);
-
-        resolve({
-          bankName: 'Excel Import',
-          accountHolder: '', 
-          period: '',
-          transactions: transactions
-        });
-
-      } catch (error: any) {
-        reject(error);
+const parseSheet = (rawData: any[][], sheetName: string, detection: HeaderDetection): StatementData => {
+  const { headerRowIndex, colMap, profile } = detection;
+  const dateFormat: DateFormat = detection.dateFormat || profile?.dateFormat || 'DMY';
+  const sign = detection.sign || profile?.sign;
+
+  const transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+
+  // Loại tiền ghi ở phần đầu sao kê ("Loại tiền: USD") hoặc trong tiêu đề cột ("Số tiền (EUR)")
+  const currency = detection.currency || detectCurrency(
+    rawData.slice(0, headerRowIndex + 1).flatMap(row => (Array.isArray(row) ? row.map(cell => String(cell ?? '')) : []))
+  ) || DEFAULT_CURRENCY;
+  const parseAmount = (val: any) => parseCurrencyAmount(val, currency);
+
+  // Số dư đầu/cuối kỳ có thể nằm phía trên dòng tiêu đề
+  for (let i = 0; i < headerRowIndex; i++) {
+    const row = rawData[i];
+    if (!row || !Array.isArray(row)) continue;
+    openingBalance = openingBalance ?? findLabeledBalance(row, OPENING_BALANCE_LABELS, currency);
+    closingBalance = closingBalance ?? findLabeledBalance(row, CLOSING_BALANCE_LABELS, currency);
+  }
+  
+  for (let i = headerRowIndex + 1; i < rawData.length; i++) {
+    const row = rawData[i];
+    if (!row || row.length === 0) continue;
+
+    // Dòng số dư đầu/cuối kỳ không phải giao dịch
+    const rowOpening = findLabeledBalance(row, OPENING_BALANCE_LABELS, currency);
+    if (rowOpening !== undefined) {
+      openingBalance = openingBalance ?? rowOpening;
+      continue;
+    }
+    const rowClosing = findLabeledBalance(row, CLOSING_BALANCE_LABELS, currency);
+    if (rowClosing !== undefined) {
+      closingBalance = rowClosing;
+      continue;
+    }
+
+    // Lấy Date
+    let rawDate = row[colMap.date];
+    if (rawDate === undefined || rawDate === null || rawDate === '') continue;
+
+    const dateStr = formatDateCell(rawDate, dateFormat);
+    // Đọc từ ô gốc (Date object / serial / chuỗi) để không mất giờ giao dịch
+    const normalizedDate = normalizeDate(rawDate, dateFormat);
+
+    // Lấy Description
+    const desc = colMap.description !== undefined ? String(row[colMap.description] || '').trim() : '';
+
+    // Lấy Amount và Type
+    let amount = 0;
+    let type: 'CREDIT' | 'DEBIT' = 'CREDIT';
+    let signInferred = false;
+
+    if (colMap.credit !== undefined && colMap.debit !== undefined) {
+      let creditVal = parseAmount(row[colMap.credit]);
+      let debitVal = parseAmount(row[colMap.debit]);
+
+      if (creditVal > 0) {
+        amount = creditVal;
+        type = 'CREDIT';
+      } else if (debitVal > 0) {
+        amount = debitVal;
+        type = 'DEBIT';
+      } else {
+         continue; 
       }
-    };
+    } else if (colMap.amount !== undefined) {
+       let val = parseAmount(row[colMap.amount]);
+       
+       if (val === 0) continue;
+
+       if (sign) {
+         // Profile ngân hàng / mẫu cột đã cố định quy ước dấu, không cần đoán theo nội dung
+         const isCredit = sign === 'SIGNED_INVERTED' ? val < 0 : val > 0;
+         amount = Math.abs(val);
+         type = isCredit ? 'CREDIT' : 'DEBIT';
+       } else if (val < 0) {
+         amount = Math.abs(val);
+         type = 'DEBIT';
+       } else {
+         amount = val;
+         signInferred = true;
+         const upperDesc = desc.toUpperCase();
+         if (upperDesc.includes('PHI ') || upperDesc.startsWith('TRICH NO') || upperDesc.startsWith('RUT TIEN') || upperDesc.includes('THU PHI') || upperDesc.includes('PAYMENT') || upperDesc.includes('DEBIT')) {
+           type = 'DEBIT';
+         } else {
+           type = 'CREDIT'; 
+         }
+       }
+    }
+
+    // Lấy Partner Name (Passing Type to Helper for Strict Logic)
+    const partnerName = extractPartnerName(desc, type);
+    // File không có cột số tài khoản đối tác: tách từ nội dung
+    const partnerAccount = colMap.account !== undefined ? String(row[colMap.account] || '').trim() : '';
+    const partner = extractPartnerDetails(desc, type);
+
+    transactions.push(addConfidenceReasons({
+      date: dateStr,
+      date_iso: normalizedDate?.iso,
+      time: normalizedDate?.time,
+      ...(normalizedDate ? {} : { date_invalid: true }),
+      amount: amount,
+      currency,
+      description: desc,
+      transaction_code: colMap.code !== undefined ? String(row[colMap.code] || '') : '',
+      partner_name: partnerName,
+      partner_account: partnerAccount || partner.account,
+      partner_bank: partner.bank,
+      type: type,
+      category: '',
+      balance: colMap.balance !== undefined && row[colMap.balance] !== undefined && row[colMap.balance] !== ''
+        ? parseAmount(row[colMap.balance])
+        : undefined,
+      source: { sheet: sheetName, row: i + 1 }
+    }, [
+      signInferred ? 'SIGN_INFERRED' : undefined,
+      partnerName ? 'PARTNER_HEURISTIC' : undefined,
+      dateConfidenceReason(rawDate, !!normalizedDate)
+    ]));
+  }
+
+  // Chủ tài khoản, số tài khoản, kỳ sao kê thường nằm phía trên dòng tiêu đề; không ghi kỳ thì lấy theo ngày giao dịch
+  const metadata = readStatementMetadata(rawData.slice(0, headerRowIndex));
+
+  return {
+    bankName: profile?.bankName || 'Excel Import',
+    accountHolder: metadata.accountHolder,
+    accountNumber: metadata.accountNumber || undefined,
+    period: metadata.period || inferPeriod(transactions),
+    currency,
+    openingBalance,
+    closingBalance,
+    transactions
+  };
+};
+
+/**
+ * Phân tích một bảng dữ liệu dạng dòng/cột (sheet Excel hoặc file CSV) thành sao kê.
+ * Dùng chung logic nhận diện tiêu đề, parse số tiền và tách tên đối tác với luồng Excel.
+ */
+export const parseStatementRows = (rawData: any[][], sheetName: string, options: ExcelImportOptions = {}): StatementData => {
+  if (!rawData || rawData.length === 0) {
+    throw new Error("File trống hoặc không đọc được dữ liệu.");
+  }
+
+  const detection = options.mapping || detectSheetHeader(rawData, sheetName, options.templates);
+  if (!detection) {
+    throw new HeaderNotFoundError(rawData.slice(0, PREVIEW_ROW_COUNT), sheetName);
+  }
+
+  const result = parseSheet(rawData, sheetName, detection);
+  return { ...result, transactions: normalizeCategories(result.transactions) };
+};
+
+/**
+ * Đọc workbook và trích xuất sao kê. Chạy được trong Web Worker (không dùng DOM / localStorage).
+ * Quét tất cả các sheet (một số ngân hàng xuất mỗi tháng / mỗi tài khoản một sheet) và gộp kết quả.
+ */
+export const parseExcelWorkbook = (
+  data: Uint8Array,
+  onProgress?: ExcelProgressCallback,
+  options: ExcelImportOptions = {}
+): StatementData => {
+  onProgress?.(20, 'Đang đọc file Excel...');
+  const workbook = read(data, { type: 'array', cellDates: true });
+
+  // --- LOGIC PHÁT HIỆN BACKUP ---
+  // Nếu file có sheet "METADATA_BACKUP", xử lý như file backup
+  if (workbook.SheetNames.includes('METADATA_BACKUP')) {
+    onProgress?.(50, 'Đang khôi phục file backup...');
+    const restoredData = parseBackupExcel(workbook);
+    onProgress?.(100);
+    return restoredData;
+  }
+  // ------------------------------
+
+  // 1. Đọc và nhận diện tiêu đề từng sheet
+  const scans = workbook.SheetNames.map((name, i) => {
+    onProgress?.(20 + Math.round((i / workbook.SheetNames.length) * 20), `Đang quét sheet "${name}" (${i + 1}/${workbook.SheetNames.length})...`);
+    const rawData = utils.sheet_to_json(workbook.Sheets[name], { header: 1 }) as any[][];
+    const detection = options.mapping && options.mappingSheet === name
+      ? options.mapping
+      : detectSheetHeader(rawData, name, options.templates);
+    return { name, rawData, detection };
+  });
+
+  onProgress?.(40);
+
+  const nonEmpty = scans.filter(scan => scan.rawData && scan.rawData.length > 0);
+  if (nonEmpty.length === 0) {
+    throw new Error("File Excel trống hoặc không đọc được dữ liệu.");
+  }
+
+  const detected = nonEmpty.filter(scan => scan.detection);
+  if (detected.length === 0) {
+    const first = nonEmpty[0];
+    throw new HeaderNotFoundError(first.rawData.slice(0, PREVIEW_ROW_COUNT), first.name);
+  }
+
+  // 2. Nhiều sheet hợp lệ: để người dùng chọn sheet cần nhập
+  if (!options.sheetNames && detected.length > 1) {
+    throw new SheetSelectionRequiredError(nonEmpty.map(scan => ({
+      name: scan.name,
+      rowCount: scan.rawData.length,
+      detected: !!scan.detection,
+      bankName: scan.detection?.profile?.bankName
+    })));
+  }
 
-    reader.onerror = (err) => reject(new Error("Lỗi đọc file Excel"));
-    reader.readAsArrayBuffer(file);
+  const selected = options.sheetNames
+    ? detected.filter(scan => options.sheetNames!.includes(scan.name))
+    : detected;
+  if (selected.length === 0) {
+    throw new Error("Chưa chọn sheet nào để nhập.");
+  }
+
+  // 3. Trích xuất dữ liệu từng sheet rồi gộp theo thứ tự sheet trong file
+  const results = selected.map((scan, i) => {
+    onProgress?.(60 + Math.round((i / selected.length) * 20), `Đang trích xuất sheet "${scan.name}" (${scan.rawData.length} dòng)...`);
+    return parseSheet(scan.rawData, scan.name, scan.detection!);
   });
-};
\ No newline at end of file
+
+  // 4. Chuẩn hóa Category và Partner
+  onProgress?.(80, 'Đang phân loại giao dịch...');
+  const transactions = normalizeCategories(results.flatMap(r => r.transactions));
+
+  onProgress?.(100);
+
+  return {
+    bankName: results.find(r => r.bankName !== 'Excel Import')?.bankName || 'Excel Import',
+    accountHolder: results.find(r => r.accountHolder)?.accountHolder || '',
+    accountNumber: results.find(r => r.accountNumber)?.accountNumber,
+    // Một sheet: kỳ ghi trên sheet; nhiều sheet theo tháng: kỳ trải từ giao dịch đầu tới giao dịch cuối
+    period: results.length === 1 ? results[0].period : inferPeriod(transactions),
+    // Sheet theo tháng: đầu kỳ lấy ở sheet đầu, cuối kỳ lấy ở sheet cuối
+    openingBalance: results[0].openingBalance,
+    closingBalance: results[results.length - 1].closingBalance,
+    // Các sheet khác loại tiền (tài khoản VND + USD chung một file) thì để từng giao dịch tự mang loại tiền
+    currency: results.every(r => r.currency === results[0].currency) ? results[0].currency : undefined,
+    transactions: transactions
+  };
+};
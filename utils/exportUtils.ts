@@ -1,19 +1,26 @@
 import { utils, writeFile } from 'xlsx';
 import { StatementData, GroupedData } from '../types';
+import { formatTransactionDate, formatIsoAsDMY } from './dateUtils';
+import { getTransactionCurrency } from './currency';
 
 export const exportRawData = (data: StatementData) => {
   try {
     // 1. Prepare Transactions Data
     const transactionRows = data.transactions.map(tx => ({
-      "Ngày": tx.date,
+      "Ngày": formatTransactionDate(tx),
+      "Giờ": tx.time || '',
+      "Ngày hiệu lực": tx.value_date ? formatIsoAsDMY(tx.value_date) : '',
       "Mã GD": tx.transaction_code || '',
       "Đối tác": tx.partner_name || '',
       "Số TK Đối tác": tx.partner_account || '',
+      "Ngân hàng đối tác": tx.partner_bank || '',
       "Phân loại": tx.category || '',
       "Nội dung": tx.description,
       "Số tiền": tx.amount,
+      "Loại tiền": getTransactionCurrency(tx, data.currency),
       "Loại": tx.type === 'CREDIT' ? 'Tiền vào' : 'Tiền ra',
-      "Dấu": tx.type === 'CREDIT' ? 1 : -1
+      "Dấu": tx.type === 'CREDIT' ? 1 : -1,
+      "Số dư": tx.balance ?? ''
     }));
 
     // 2. Prepare Summary Data
@@ -28,11 +35,15 @@ export const exportRawData = (data: StatementData) => {
     const summaryRows = [
       { "Thông tin": "Ngân hàng", "Giá trị": data.bankName || "Không xác định" },
       { "Thông tin": "Chủ tài khoản", "Giá trị": data.accountHolder || "Không xác định" },
+      { "Thông tin": "Số tài khoản", "Giá trị": data.accountNumber || "Không xác định" },
       { "Thông tin": "Giai đoạn", "Giá trị": data.period || "Không xác định" },
+      { "Thông tin": "Loại tiền", "Giá trị": data.currency || "Nhiều loại tiền" },
       { "Thông tin": "Tổng số giao dịch", "Giá trị": data.transactions.length },
       { "Thông tin": "Tổng tiền vào (+)", "Giá trị": totalCredit },
       { "Thông tin": "Tổng tiền ra (-)", "Giá trị": totalDebit },
-      { "Thông tin": "Số dư ròng", "Giá trị": totalCredit - totalDebit }
+      { "Thông tin": "Số dư ròng", "Giá trị": totalCredit - totalDebit },
+      { "Thông tin": "Số dư đầu kỳ", "Giá trị": data.openingBalance ?? "Không xác định" },
+      { "Thông tin": "Số dư cuối kỳ", "Giá trị": data.closingBalance ?? "Không xác định" }
     ];
 
     // 3. Create Workbook
@@ -47,11 +58,14 @@ export const exportRawData = (data: StatementData) => {
       { wch: 15 }, // Code
       { wch: 30 }, // Partner
       { wch: 20 }, // Account
+      { wch: 18 }, // Partner bank
       { wch: 15 }, // Category
       { wch: 50 }, // Description
       { wch: 15 }, // Amount
+      { wch: 8 },  // Currency
       { wch: 10 }, // Type
-      { wch: 5 }   // Sign
+      { wch: 5 },  // Sign
+      { wch: 15 }  // Balance
     ];
 
     wsSummary['!cols'] = [
@@ -72,7 +86,10 @@ export const exportRawData = (data: StatementData) => {
   }
 };
 
-export const exportGroupedData = (groups: GroupedData[], groupByLabel: string) => {
+/**
+ * @param baseCurrency Loại tiền đã quy đổi các tổng của nhóm; chi tiết giao dịch giữ số tiền gốc
+ */
+export const exportGroupedData = (groups: GroupedData[], groupByLabel: string, baseCurrency: string) => {
   try {
     // Sheet 1: Summary of Groups
     const summaryRows = groups.map(g => ({
@@ -81,7 +98,8 @@ export const exportGroupedData = (groups: GroupedData[], groupByLabel: string) =
       "Tiền vào (+)": g.totalCredit,
       "Tiền ra (-)": g.totalDebit,
       "Tổng lưu chuyển": g.totalAmount,
-      "Trung bình": g.averageAmount
+      "Trung bình": g.averageAmount,
+      "Loại tiền": baseCurrency
     }));
 
     // Sheet 2: Detailed Transactions by Group
@@ -90,13 +108,15 @@ export const exportGroupedData = (groups: GroupedData[], groupByLabel: string) =
       g.transactions.forEach(tx => {
         detailRows.push({
           [groupByLabel]: g.key, // Cột nhóm để lọc
-          "Ngày": tx.date,
+          "Ngày": formatTransactionDate(tx),
           "Mã GD": tx.transaction_code,
           "Đối tác": tx.partner_name,
           "Số TK Đối tác": tx.partner_account,
+          "Ngân hàng đối tác": tx.partner_bank || '',
           "Nội dung": tx.description,
           "Phân loại": tx.category,
           "Số tiền": tx.amount,
+          "Loại tiền": getTransactionCurrency(tx),
           "Loại GD": tx.type === 'CREDIT' ? 'Tiền vào' : 'Tiền ra'
         });
       });
@@ -115,7 +135,8 @@ export const exportGroupedData = (groups: GroupedData[], groupByLabel: string) =
       { wch: 20 }, // Credit
       { wch: 20 }, // Debit
       { wch: 20 }, // Total
-      { wch: 20 }  // Average
+      { wch: 20 }, // Average
+      { wch: 8 }   // Currency
     ];
 
     wsDetails['!cols'] = [
@@ -124,9 +145,11 @@ export const exportGroupedData = (groups: GroupedData[], groupByLabel: string) =
       { wch: 15 }, // Code
       { wch: 25 }, // Partner
       { wch: 20 }, // Account
+      { wch: 18 }, // Partner bank
       { wch: 40 }, // Desc
       { wch: 15 }, // Category
       { wch: 15 }, // Amount
+      { wch: 8 },  // Currency
       { wch: 10 }  // Type
     ];
 
@@ -158,7 +181,13 @@ export const exportExcelBackup = (data: StatementData) => {
       { Key: 'fileName', Value: data.fileName },
       { Key: 'bankName', Value: data.bankName },
       { Key: 'accountHolder', Value: data.accountHolder },
+      { Key: 'accountNumber', Value: data.accountNumber },
       { Key: 'period', Value: data.period },
+      { Key: 'openingBalance', Value: data.openingBalance },
+      { Key: 'closingBalance', Value: data.closingBalance },
+      { Key: 'currency', Value: data.currency },
+      { Key: 'extractionSettings', Value: data.extractionSettings ? JSON.stringify(data.extractionSettings) : undefined },
+      { Key: 'usage', Value: data.usage ? JSON.stringify(data.usage) : undefined },
       { Key: 'savedAt', Value: data.savedAt || Date.now() },
       { Key: 'VERSION', Value: '1.0' } // Version control
     ];
@@ -168,13 +197,22 @@ export const exportExcelBackup = (data: StatementData) => {
     // Map chính xác các trường trong interface Transaction
     const txData = data.transactions.map(tx => ({
       date: tx.date,
+      date_iso: tx.date_iso,
+      time: tx.time,
+      value_date: tx.value_date,
       amount: tx.amount,
+      currency: tx.currency,
       description: tx.description,
       transaction_code: tx.transaction_code,
       partner_name: tx.partner_name,
       partner_account: tx.partner_account,
+      partner_bank: tx.partner_bank,
       type: tx.type,
-      category: tx.category
+      category: tx.category,
+      balance: tx.balance,
+      confidence: tx.confidence,
+      confidence_reasons: tx.confidence_reasons?.join(','),
+      reviewed: tx.reviewed ? 1 : undefined
     }));
     const wsTx = utils.json_to_sheet(txData);
 
@@ -0,0 +1,46 @@
+import { DEFAULT_CURRENCY } from './currency';
+
+const STORAGE_KEY = 'smart_bank_fx_rates_v1';
+
+/**
+ * Bảng tỷ giá do người dùng tự nhập: giá trị của 1 đơn vị ngoại tệ tính bằng VND
+ */
+export type FxRateTable = Record<string, number>;
+
+export const DEFAULT_FX_RATES: FxRateTable = {
+  USD: 25000,
+  EUR: 27000
+};
+
+export const getFxRates = (): FxRateTable => {
+  try {
+    const str = localStorage.getItem(STORAGE_KEY);
+    return str ? JSON.parse(str) : DEFAULT_FX_RATES;
+  } catch (error) {
+    return DEFAULT_FX_RATES;
+  }
+};
+
+export const saveFxRates = (rates: FxRateTable) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rates));
+  } catch (error) {
+    console.error("Không thể lưu bảng tỷ giá", error);
+  }
+};
+
+const rateToVnd = (currency: string, rates: FxRateTable): number | undefined =>
+  currency === DEFAULT_CURRENCY ? 1 : rates[currency];
+
+/**
+ * Quy đổi số tiền giữa hai loại tiền qua VND
+ *
+ * @returns null nếu bảng tỷ giá chưa có tỷ giá của một trong hai loại tiền
+ */
+export const convertAmount = (amount: number, from: string, to: string, rates: FxRateTable): number | null => {
+  if (from === to) return amount;
+  const fromRate = rateToVnd(from, rates);
+  const toRate = rateToVnd(to, rates);
+  if (!fromRate || !toRate) return null;
+  return (amount * fromRate) / toRate;
+};
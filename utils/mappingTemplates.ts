@@ -0,0 +1,68 @@
+import { ColumnMap, DateFormat, HeaderDetection, SignConvention, normalizeLabel } from './bankProfiles';
+
+const STORAGE_KEY = 'smart_bank_mapping_templates_v1';
+
+export interface MappingTemplate {
+  signature: string; // Chữ ký dòng tiêu đề (các nhãn đã chuẩn hóa, nối bằng '|')
+  name: string;
+  colMap: ColumnMap;
+  dateFormat: DateFormat;
+  sign?: SignConvention;
+  savedAt: number;
+}
+
+/**
+ * Tạo chữ ký cho một dòng tiêu đề: giữ nguyên thứ tự cột để chỉ số cột trong template còn đúng
+ */
+export const getHeaderSignature = (row: any[]): string => {
+  return Array.from(row, cell => normalizeLabel(cell)).join('|').replace(/\|+$/, '');
+};
+
+/**
+ * Các template đã lưu. Web Worker không đọc được localStorage nên phía main thread đọc sẵn rồi gửi kèm
+ */
+export const getMappingTemplates = (): MappingTemplate[] => {
+  try {
+    const str = localStorage.getItem(STORAGE_KEY);
+    return str ? JSON.parse(str) : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+export const saveMappingTemplate = (headerRow: any[], mapping: Omit<MappingTemplate, 'signature' | 'savedAt'>) => {
+  try {
+    const signature = getHeaderSignature(headerRow);
+    const templates = getMappingTemplates().filter(t => t.signature !== signature);
+    templates.push({ ...mapping, signature, savedAt: Date.now() });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error("Không thể lưu mẫu cột", error);
+  }
+};
+
+/**
+ * Tìm dòng tiêu đề khớp với một template đã lưu (quét 100 dòng đầu)
+ */
+export const findMappingTemplate = (rawData: any[][], templates: MappingTemplate[] = getMappingTemplates()): HeaderDetection | null => {
+  if (templates.length === 0) return null;
+
+  for (let i = 0; i < Math.min(100, rawData.length); i++) {
+    const row = rawData[i];
+    if (!row || !Array.isArray(row) || row.length === 0) continue;
+    const signature = getHeaderSignature(row);
+    if (!signature) continue;
+
+    const template = templates.find(t => t.signature === signature);
+    if (template) {
+      return {
+        headerRowIndex: i,
+        colMap: template.colMap,
+        dateFormat: template.dateFormat,
+        sign: template.sign,
+        templateName: template.name
+      };
+    }
+  }
+  return null;
+};
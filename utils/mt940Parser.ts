@@ -0,0 +1,229 @@
+import { StatementData, Transaction } from '../types';
+import { normalizeCategories } from './categories';
+import { normalizeTransactionDates } from './dateUtils';
+import { decodeTextBytes } from './csvParser';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+interface Mt940Balance {
+  date: string;
+  amount: number;
+  currency: string;
+}
+
+// Các khóa của trường :86: dạng "/KEY/value" (chuẩn SWIFT, ngân hàng Hà Lan, Bỉ...)
+const SWIFT_INFO_KEYS = ['CNTP', 'NAME', 'IBAN', 'ACCW', 'BIC', 'REMI', 'EREF', 'ORDP', 'BENM', 'ADDR', 'MARF', 'CSID', 'PURP', 'RTRN', 'TRCD', 'USTD', 'STRD'];
+
+/**
+ * Số tiền MT940 luôn dùng dấu phẩy thập phân, không có phân cách ngàn: "1234,56", "100,"
+ */
+const parseMtAmount = (val: string): number => {
+  const parsed = parseFloat(val.replace(',', '.'));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * YYMMDD -> DD/MM/YYYY
+ */
+const formatMtDate = (val: string): string => {
+  return `${val.slice(4, 6)}/${val.slice(2, 4)}/20${val.slice(0, 2)}`;
+};
+
+const entryYear = (valueDate: string, entryDate: string): string => {
+  const year = Number(valueDate.slice(0, 2));
+  const valueMonth = Number(valueDate.slice(2, 4));
+  const entryMonth = Number(entryDate.slice(0, 2));
+  const adjusted = valueMonth === 1 && entryMonth === 12 ? year - 1 : valueMonth === 12 && entryMonth === 1 ? year + 1 : year;
+  return String((adjusted + 100) % 100).padStart(2, '0');
+};
+
+/**
+ * Tách nội dung file thành danh sách trường ":TAG:value" (giá trị có thể kéo dài nhiều dòng)
+ */
+const splitFields = (text: string): Mt940Field[] => {
+  const fields: Mt940Field[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() && !/^-\}?$|^\{/.test(line.trim())) {
+      // Dòng nối tiếp của trường trước (bỏ qua các block header {1:...}{2:...} và ký tự kết thúc "-}")
+      fields[fields.length - 1].value += '\n' + line;
+    }
+  });
+
+  return fields;
+};
+
+/**
+ * :60F: / :62F: -> C240131EUR1234,56
+ */
+const parseBalance = (val: string): Mt940Balance | null => {
+  const match = val.trim().match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+  const amount = parseMtAmount(match[4]);
+  return { date: formatMtDate(match[2]), amount: match[1] === 'D' ? -amount : amount, currency: match[3] };
+};
+
+/**
+ * Tách thông tin đối tác từ trường :86:
+ * - Dạng Đức (MT940 của Deutsche Bank, Commerzbank...): "166?00SEPA-UEBERWEISUNG?20Noi dung?31DE89...?32Ten doi tac"
+ * - Dạng SWIFT: "/CNTP/NL91ABNA0417164300/ABNANL2A/Ten doi tac/City/REMI/USTD//Noi dung/"
+ * - Còn lại: văn bản tự do
+ */
+const parseInfo = (info: string): { description: string; name: string; account: string } => {
+  const text = info.replace(/\r?\n/g, '');
+
+  const german = text.match(/^\d{3}(\D)\d{2}/);
+  if (german) {
+    const separator = german[1];
+    const subfields: Record<string, string> = {};
+    text.slice(3).split(separator).forEach(part => {
+      if (part.length >= 2) {
+        const key = part.slice(0, 2);
+        subfields[key] = (subfields[key] || '') + part.slice(2);
+      }
+    });
+    const purpose = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']
+      .map(key => subfields[key] || '')
+      .join('');
+    return {
+      description: purpose || subfields['00'] || text,
+      name: ((subfields['32'] || '') + (subfields['33'] || '')).trim(),
+      account: (subfields['31'] || '').trim()
+    };
+  }
+
+  if (SWIFT_INFO_KEYS.some(key => text.includes(`/${key}/`))) {
+    const values: Record<string, string[]> = {};
+    let currentKey = '';
+    text.split('/').forEach(part => {
+      if (SWIFT_INFO_KEYS.includes(part)) {
+        currentKey = part;
+        values[currentKey] = values[currentKey] || [];
+      } else if (currentKey && part) {
+        values[currentKey].push(part);
+      }
+    });
+    // CNTP = số TK / BIC / tên / thành phố
+    const counterparty = values['CNTP'] || [];
+    const remittance = [...(values['REMI'] || []), ...(values['USTD'] || [])].join(' ');
+    return {
+      description: remittance || text,
+      name: (values['NAME'] || [])[0] || counterparty[2] || '',
+      account: (values['IBAN'] || values['ACCW'] || [])[0] || counterparty[0] || ''
+    };
+  }
+
+  return { description: text.trim(), name: '', account: '' };
+};
+
+/**
+ * :61: -> 2401050105D12,50NTRFNONREF//8327000090031789
+ * Ngày hiệu lực (YYMMDD), ngày ghi sổ (MMDD, tùy chọn), dấu Nợ/Có (C, D, RC, RD), mã quỹ (tùy chọn), số tiền,
+ * loại giao dịch (4 ký tự), mã tham chiếu khách hàng, "//" mã tham chiếu ngân hàng, dòng 2 là chi tiết bổ sung.
+ */
+const parseStatementLine = (val: string): Omit<Transaction, 'partner_name' | 'partner_account' | 'category'> | null => {
+  const [firstLine, ...rest] = val.split('\n');
+  const match = firstLine.match(/^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)[A-Z]\w{3}(.*)$/);
+  if (!match) return null;
+
+  const [, valueDate, entryDate, mark, amount, references] = match;
+  const [customerRef, bankRef] = references.split('//');
+  // RC = hủy một khoản Có (thực chất là tiền ra), RD = hủy một khoản Nợ (tiền vào)
+  const isCredit = mark === 'C' || mark === 'RD';
+
+  return {
+    // Ngày ghi sổ (MMDD, tùy chọn) lấy năm theo ngày hiệu lực; lệch năm khi giao dịch vắt qua giao thừa
+    date: entryDate ? formatMtDate(`${entryYear(valueDate, entryDate)}${entryDate}`) : formatMtDate(valueDate),
+    value_date: formatMtDate(valueDate),
+    amount: parseMtAmount(amount),
+    description: rest.join(' ').trim(),
+    transaction_code: (customerRef && customerRef !== 'NONREF' ? customerRef : bankRef || '').trim(),
+    type: isCredit ? 'CREDIT' : 'DEBIT'
+  };
+};
+
+/**
+ * Phân tích nội dung sao kê SWIFT MT940 (một file có thể chứa nhiều sao kê liên tiếp theo ngày)
+ */
+export const parseMt940 = (text: string): StatementData => {
+  const fields = splitFields(text);
+  if (!fields.some(f => f.tag === '61') && !fields.some(f => f.tag.startsWith('60'))) {
+    throw new Error("File MT940 không hợp lệ (không tìm thấy trường :60F: hoặc :61:).");
+  }
+
+  const transactions: Transaction[] = [];
+  let accountNumber = '';
+  let accountHolder = '';
+  let opening: Mt940Balance | null = null;
+  let closing: Mt940Balance | null = null;
+  // Giao dịch vừa đọc từ :61:, chờ trường :86: ngay sau nó
+  let pending: Transaction | null = null;
+
+  for (const field of fields) {
+    const previous = pending;
+    pending = null;
+
+    switch (field.tag) {
+      case '25':
+        // Có thể là "IBAN" hoặc "BANKCODE/ACCOUNT"
+        accountNumber = accountNumber || field.value.trim();
+        break;
+      case '60F':
+      case '60M':
+        opening = opening || parseBalance(field.value);
+        break;
+      case '62F':
+      case '62M':
+        closing = parseBalance(field.value) || closing;
+        break;
+      case '61': {
+        const line = parseStatementLine(field.value);
+        if (line) {
+          pending = { ...line, partner_name: '', partner_account: '', category: '' };
+          transactions.push(pending);
+        }
+        break;
+      }
+      case '86': {
+        // :86: đứng ngay sau :61: là thông tin chi tiết của giao dịch đó, còn lại là thông tin cấp sao kê
+        if (previous) {
+          const info = parseInfo(field.value);
+          previous.description = info.description || previous.description;
+          previous.partner_name = info.name;
+          previous.partner_account = info.account;
+        } else if (!accountHolder) {
+          // MT940 không có trường chủ tài khoản riêng, một số ngân hàng ghi tên chủ TK ở :86: cấp sao kê
+          accountHolder = parseInfo(field.value).name;
+        }
+        break;
+      }
+    }
+  }
+
+  // Mã BIC của ngân hàng gửi nằm trong block header {1:F01XXXXXXXXXXXX...}
+  const bic = text.match(/\{1:F01([A-Z0-9]{8})/);
+  // Loại tiền của tài khoản ghi trong số dư :60F: / :62F:
+  const currency = opening?.currency || closing?.currency;
+
+  return {
+    bankName: bic ? bic[1] : 'MT940 Import',
+    accountHolder,
+    accountNumber,
+    period: opening && closing ? `${opening.date} - ${closing.date}` : '',
+    openingBalance: opening ? opening.amount : undefined,
+    closingBalance: closing ? closing.amount : undefined,
+    currency,
+    transactions: normalizeCategories(normalizeTransactionDates(transactions.map(tx => ({ ...tx, currency }))))
+  };
+};
+
+export const processMt940File = async (file: File): Promise<StatementData> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return parseMt940(decodeTextBytes(bytes));
+};
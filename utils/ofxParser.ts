@@ -0,0 +1,110 @@
+import { StatementData, Transaction } from '../types';
+import { normalizeCategories } from './categories';
+import { normalizeTransactionDates } from './dateUtils';
+import { parseDecimalAmount } from './amountUtils';
+import { normalizeCurrencyCode } from './currency';
+import { decodeTextBytes } from './csvParser';
+
+/**
+ * Giải mã các entity XML/SGML cơ bản
+ */
+const decodeEntities = (str: string): string => {
+  return str
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Lấy giá trị của thẻ đầu tiên trong khối.
+ * OFX 1.x (SGML) không đóng thẻ lá: "<TRNAMT>-12.50", OFX 2.x (XML) thì có: "<TRNAMT>-12.50</TRNAMT>".
+ * Cả hai đều kết thúc giá trị tại ký tự '<' hoặc xuống dòng nên dùng chung một regex.
+ */
+const getTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+};
+
+/**
+ * Lấy nội dung của khối tổng hợp (VD: <STMTTRN>...</STMTTRN>). Khối tổng hợp luôn được đóng ở cả SGML lẫn XML.
+ */
+const getBlocks = (text: string, tag: string): string[] => {
+  const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  const blocks: string[] = [];
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+};
+
+/**
+ * Ngày OFX: YYYYMMDD[HHMMSS[.XXX]][[-5:EST]] -> DD/MM/YYYY
+ */
+const formatOfxDate = (val: string): string => {
+  const match = val.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return val;
+  return `${match[3]}/${match[2]}/${match[1]}`;
+};
+
+/**
+ * Phân tích nội dung OFX 1.x (SGML), OFX 2.x (XML) hoặc QFX (OFX của Quicken)
+ */
+export const parseOfx = (text: string): StatementData => {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error("File OFX không hợp lệ (không tìm thấy thẻ <OFX>).");
+  }
+
+  // Bỏ phần header SGML ("OFXHEADER:100 ...") hoặc khai báo XML trước thẻ <OFX>
+  const body = text.slice(text.search(/<OFX>/i));
+
+  // Sao kê tài khoản ngân hàng (STMTRS) hoặc thẻ tín dụng (CCSTMTRS)
+  const statement = getBlocks(body, 'STMTRS')[0] || getBlocks(body, 'CCSTMTRS')[0];
+  if (!statement) {
+    throw new Error("File OFX không chứa sao kê tài khoản.");
+  }
+
+  const currency = normalizeCurrencyCode(getTag(statement, 'CURDEF')) || undefined;
+
+  const transactions: Transaction[] = getBlocks(statement, 'STMTTRN').map(block => {
+    const amount = parseDecimalAmount(getTag(block, 'TRNAMT'));
+    const name = getTag(block, 'NAME') || getTag(block, 'PAYEE');
+    const memo = getTag(block, 'MEMO');
+    const account = getTag(block, 'ACCTID'); // BANKACCTTO / CCACCTTO của giao dịch chuyển khoản
+
+    return {
+      date: formatOfxDate(getTag(block, 'DTPOSTED') || getTag(block, 'DTUSER')),
+      amount: Math.abs(amount),
+      currency,
+      description: [name, memo].filter(Boolean).join(' - '),
+      transaction_code: getTag(block, 'FITID') || getTag(block, 'CHECKNUM') || getTag(block, 'REFNUM'),
+      partner_name: name,
+      partner_account: account,
+      type: amount < 0 ? 'DEBIT' : 'CREDIT',
+      category: ''
+    };
+  });
+
+  const bankList = getBlocks(statement, 'BANKTRANLIST')[0] || '';
+  const dtStart = getTag(bankList, 'DTSTART');
+  const dtEnd = getTag(bankList, 'DTEND');
+  const ledgerBal = getBlocks(statement, 'LEDGERBAL')[0];
+
+  return {
+    bankName: getTag(body, 'ORG') || 'OFX Import',
+    accountHolder: '',
+    accountNumber: getTag(getBlocks(statement, 'BANKACCTFROM')[0] || getBlocks(statement, 'CCACCTFROM')[0] || '', 'ACCTID'),
+    period: dtStart && dtEnd ? `${formatOfxDate(dtStart)} - ${formatOfxDate(dtEnd)}` : '',
+    closingBalance: ledgerBal ? parseDecimalAmount(getTag(ledgerBal, 'BALAMT')) : undefined,
+    currency,
+    transactions: normalizeCategories(normalizeTransactionDates(transactions))
+  };
+};
+
+export const processOfxFile = async (file: File): Promise<StatementData> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return parseOfx(decodeTextBytes(bytes));
+};
@@ -0,0 +1,96 @@
+import { Transaction } from '../types';
+import { normalizeLabel } from './bankProfiles';
+import { addConfidenceReasons } from './confidence';
+
+// Dòng "mang sang" / "cộng trang" in ở đầu hoặc cuối trang không phải giao dịch
+const CARRY_OVER_LABELS = [
+  'mang sang', 'so du chuyen', 'so du mang', 'cong trang', 'cong don',
+  'so du dau ky', 'so du cuoi ky', 'brought forward', 'carried forward', 'balance b/f', 'balance c/f', 'opening balance', 'closing balance'
+];
+
+// Số dòng tối đa ở cuối trang trước / đầu trang sau được so sánh để tìm dòng bị đọc lặp
+const BOUNDARY_WINDOW = 3;
+
+// Lệch số dòng so với số dòng nhìn thấy trên bảng vượt ngưỡng này thì cảnh báo
+const ROW_COUNT_TOLERANCE_RATIO = 0.1;
+
+export const isCarryOverRow = (tx: Transaction): boolean => {
+  // Dòng có mã giao dịch là giao dịch thật (VD: "Chuyển sang TK..."), dòng chuyển trang không có mã
+  if ((tx.transaction_code || '').trim()) return false;
+  const text = normalizeLabel(tx.description || '');
+  return CARRY_OVER_LABELS.some(label => text.startsWith(label));
+};
+
+const rowKey = (tx: Transaction) => [
+  tx.date,
+  tx.type,
+  tx.amount,
+  tx.balance ?? '',
+  (tx.transaction_code || '').trim(),
+  normalizeLabel(tx.description || '').replace(/\s+/g, ' ')
+].join('|');
+
+/**
+ * Số dòng ở đầu trang sau trùng y hệt (theo thứ tự) các dòng cuối trang trước
+ */
+const countBoundaryOverlap = (previous: Transaction[], next: Transaction[]): number => {
+  const max = Math.min(BOUNDARY_WINDOW, previous.length, next.length);
+  for (let size = max; size > 0; size--) {
+    const tail = previous.slice(-size).map(rowKey);
+    const head = next.slice(0, size).map(rowKey);
+    if (tail.every((key, i) => key === head[i])) return size;
+  }
+  return 0;
+};
+
+/**
+ * Ghép giao dịch các trang theo thứ tự trang: bỏ dòng "mang sang"/"cộng trang"
+ * và các dòng bị đọc lặp ở chỗ ngắt trang. Giữ số trang và số thứ tự dòng trên trang (source.row).
+ *
+ * Chỉ bỏ dòng lặp khi có số dư trùng khớp: không có số dư thì có thể là hai giao dịch thật giống nhau
+ * (VD: hai lần phí cùng ngày), khi đó giữ lại và hạ điểm tin cậy để người dùng kiểm tra.
+ *
+ * @returns Giao dịch đã ghép và số dòng bị loại theo từng trang
+ */
+export const mergePageTransactions = (
+  pageTransactions: Record<number, Transaction[]>,
+  pages: number[]
+): { transactions: Transaction[]; removedByPage: Record<number, number> } => {
+  const removedByPage: Record<number, number> = {};
+  const transactions: Transaction[] = [];
+  let previous: Transaction[] = [];
+  let previousPage = -1;
+
+  [...pages].sort((a, b) => a - b).forEach(page => {
+    const rows = (pageTransactions[page] || []).map((tx, i) => ({
+      ...tx,
+      source: { ...tx.source, page, row: tx.source?.row ?? i + 1 }
+    }));
+    const kept = rows.filter(tx => !isCarryOverRow(tx));
+
+    // Chỉ so với trang liền trước (trang giữa bị lỗi thì không có ranh giới để so)
+    const overlap = previousPage === page - 1 ? countBoundaryOverlap(previous, kept) : 0;
+    const hasBalance = kept.slice(0, overlap).every(tx => typeof tx.balance === 'number');
+    const unique = hasBalance
+      ? kept.slice(overlap)
+      : kept.map((tx, i) => (i < overlap ? addConfidenceReasons(tx, ['PAGE_BOUNDARY_REPEAT']) : tx));
+
+    const removed = rows.length - unique.length;
+    if (removed > 0) removedByPage[page] = removed;
+
+    transactions.push(...unique);
+    previous = unique;
+    previousPage = page;
+  });
+
+  return { transactions, removedByPage };
+};
+
+/**
+ * Số dòng đọc được lệch nhiều so với số dòng giao dịch nhìn thấy trên bảng
+ */
+export const isRowCountMismatch = (rowCount: number, expectedRows?: number): boolean => {
+  if (expectedRows === undefined || expectedRows < 0) return false;
+  const tolerance = Math.max(1, Math.round(expectedRows * ROW_COUNT_TOLERANCE_RATIO));
+  return Math.abs(rowCount - expectedRows) > tolerance;
+};
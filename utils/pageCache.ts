@@ -0,0 +1,106 @@
+const STORAGE_KEY = 'smart_bank_page_cache_v1';
+// Chỉ giữ kết quả của vài file gần nhất để không vượt giới hạn localStorage
+const MAX_CACHED_FILES = 10;
+
+interface CachedFile {
+  savedAt: number;
+  pages: Record<string, string>; // `${promptVersion}:${page}` -> phản hồi JSON thô của AI
+}
+
+type PageCache = Record<string, CachedFile>;
+
+const pageKeyPrefix = (promptVersion: string) => `${promptVersion}:`;
+const pageKey = (page: number, promptVersion: string) => `${pageKeyPrefix(promptVersion)}${page}`;
+
+const readCache = (): PageCache => {
+  try {
+    const str = localStorage.getItem(STORAGE_KEY);
+    return str ? JSON.parse(str) : {};
+  } catch (error) {
+    return {};
+  }
+};
+
+/**
+ * Ghi cache, bỏ bớt file cũ nhất khi quá số lượng hoặc khi localStorage báo đầy
+ */
+const writeCache = (cache: PageCache) => {
+  const hashes = Object.keys(cache).sort((a, b) => cache[b].savedAt - cache[a].savedAt);
+  hashes.slice(MAX_CACHED_FILES).forEach(hash => delete cache[hash]);
+
+  while (true) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+      return;
+    } catch (error) {
+      const remaining = Object.keys(cache).sort((a, b) => cache[a].savedAt - cache[b].savedAt);
+      if (remaining.length <= 1) {
+        console.error("Không thể lưu bộ nhớ đệm trang PDF", error);
+        return;
+      }
+      delete cache[remaining[0]];
+    }
+  }
+};
+
+/**
+ * FNV-1a 2 x 32 bit (hai hệ số khởi tạo khác nhau) - dùng khi trình duyệt không có crypto.subtle
+ */
+const fnvHash = (bytes: Uint8Array): string => {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ bytes.length;
+  for (let i = 0; i < bytes.length; i++) {
+    h1 = Math.imul(h1 ^ bytes[i], 0x01000193);
+    h2 = Math.imul(h2 ^ bytes[i], 0x01000193) ^ (h1 >>> 15);
+  }
+  return `fnv-${(h1 >>> 0).toString(16).padStart(8, '0')}${(h2 >>> 0).toString(16).padStart(8, '0')}${bytes.length.toString(16)}`;
+};
+
+/**
+ * SHA-256 của nội dung file (hex) - cùng một file tải lên lại sẽ có cùng khóa cache.
+ * crypto.subtle chỉ có trong secure context (https / localhost): mở app qua http trong mạng LAN thì dùng hash JS,
+ * khóa cache không bao giờ được làm hỏng việc phân tích
+ */
+export const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) {
+    try {
+      const digest = await subtle.digest('SHA-256', bytes);
+      return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    } catch (error) {
+      console.warn("Không tính được SHA-256, dùng hash dự phòng", error);
+    }
+  }
+  return fnvHash(bytes);
+};
+
+/**
+ * Các trang đã lưu của một file (số trang -> phản hồi thô). Cache có thể lớn nên chỉ đọc một lần cho cả lượt phân tích.
+ */
+export const getCachedPages = (fileHash: string, promptVersion: string): Record<number, string> => {
+  const prefix = pageKeyPrefix(promptVersion);
+  const pages: Record<number, string> = {};
+  Object.entries(readCache()[fileHash]?.pages || {}).forEach(([key, response]) => {
+    if (key.startsWith(prefix)) pages[Number(key.slice(prefix.length))] = response;
+  });
+  return pages;
+};
+
+export const saveCachedPage = (fileHash: string, page: number, promptVersion: string, response: string) => {
+  const cache = readCache();
+  const file = cache[fileHash] || { savedAt: Date.now(), pages: {} };
+  file.pages[pageKey(page, promptVersion)] = response;
+  file.savedAt = Date.now();
+  cache[fileHash] = file;
+  writeCache(cache);
+};
+
+export const getPageCacheStats = (): { files: number; pages: number } => {
+  const cache = readCache();
+  const files = Object.values(cache);
+  return { files: files.length, pages: files.reduce((sum, f) => sum + Object.keys(f.pages).length, 0) };
+};
+
+export const clearPageCache = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
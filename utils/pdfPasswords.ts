@@ -0,0 +1,24 @@
+/**
+ * Mật khẩu PDF sao kê đã nhớ trong phiên làm việc.
+ * Chỉ giữ trong bộ nhớ (mất khi tải lại trang), KHÔNG ghi vào localStorage hay file backup.
+ */
+const sessionPasswords = new Map<string, string>();
+
+/**
+ * Khóa nhớ mật khẩu theo ngân hàng + số tài khoản (thường cùng một mật khẩu cho mọi kỳ sao kê)
+ */
+export const pdfPasswordKey = (bankName?: string, accountNumber?: string) =>
+  `${(bankName || '').trim().toUpperCase()}|${(accountNumber || '').replace(/\s/g, '')}`;
+
+export const rememberPdfPassword = (key: string, password: string) => {
+  sessionPasswords.set(key, password);
+};
+
+/**
+ * Các mật khẩu đã nhớ (không trùng), để thử tự động trước khi hỏi người dùng
+ */
+export const getRememberedPdfPasswords = (): string[] => Array.from(new Set(sessionPasswords.values()));
+
+export const forgetPdfPasswords = () => {
+  sessionPasswords.clear();
+};
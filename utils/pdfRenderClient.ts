@@ -0,0 +1,86 @@
+import { createAbortError } from './analysisControl';
+import type { PdfRenderRequest, PdfRenderResponse } from '../workers/pdfRenderWorker';
+
+/**
+ * Vẽ trang PDF thành ảnh JPEG trong Web Worker (OffscreenCanvas), không chặn main thread
+ */
+export interface PdfPageRenderer {
+  render: (pageNum: number, scale: number, quality: number, signal?: AbortSignal) => Promise<string>; // JPEG base64
+  destroy: () => void;
+}
+
+/**
+ * Trình duyệt có vẽ được trong worker không (Safari cũ chưa có OffscreenCanvas)
+ */
+export const canRenderInWorker = (): boolean => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+/**
+ * Mở một worker vẽ trang cho file PDF. Worker giữ bản sao file riêng nên không dùng chung được đối tượng pdf.js của main thread.
+ *
+ * @param data Nội dung file PDF (được sao chép sang worker)
+ * @param workerSrc Đường dẫn worker của pdf.js (worker vẽ trang tự mở pdf.js worker riêng)
+ */
+export const createPdfPageRenderer = (data: Uint8Array, password: string | undefined, workerSrc: string): PdfPageRenderer => {
+  const worker = new Worker(new URL('../workers/pdfRenderWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (image: string) => void; reject: (err: Error) => void }>();
+  let nextId = 1;
+  let destroyed = false;
+
+  const send = (message: PdfRenderRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  const failAll = (err: Error) => {
+    pending.forEach(p => p.reject(err));
+    pending.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<PdfRenderResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === 'rendered') {
+      request.resolve(message.image);
+    } else {
+      const err = new Error(message.message);
+      err.name = message.name;
+      request.reject(err);
+    }
+  };
+  worker.onerror = (event) => {
+    failAll(new Error(event.message || "Lỗi worker vẽ trang PDF."));
+  };
+
+  const copy = data.slice();
+  send({ type: 'open', data: copy.buffer, password, workerSrc }, [copy.buffer]);
+
+  return {
+    render: (pageNum, scale, quality, signal) => new Promise((resolve, reject) => {
+      if (destroyed) {
+        reject(new Error("Worker vẽ trang đã đóng."));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      const id = nextId++;
+      const onAbort = () => {
+        if (!pending.delete(id)) return;
+        send({ type: 'cancel', id });
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pending.set(id, {
+        resolve: (image) => { signal?.removeEventListener('abort', onAbort); resolve(image); },
+        reject: (err) => { signal?.removeEventListener('abort', onAbort); reject(err); }
+      });
+      send({ type: 'render', id, page: pageNum, scale, quality });
+    }),
+    destroy: () => {
+      if (destroyed) return;
+      destroyed = true;
+      failAll(new Error("Worker vẽ trang đã đóng."));
+      worker.terminate();
+    }
+  };
+};
@@ -0,0 +1,287 @@
+import { StatementData, Transaction, SourceBox } from '../types';
+import { detectSheetHeader, parseStatementRows } from './excelParser';
+import { HeaderDetection, normalizeLabel } from './bankProfiles';
+import { parseDecimalAmount } from './amountUtils';
+import { detectCurrency } from './currency';
+import { reconcileStatement } from './reconciliation';
+import { readStatementMetadata } from './statementMetadata';
+
+// Trang có ít ký tự hơn ngưỡng này được coi là trang scan (chỉ có ảnh)
+const MIN_TEXT_CHARS = 20;
+// Khoảng trống giữa hai mẩu chữ lớn hơn (cỡ chữ * hệ số) thì tách thành hai ô
+const CELL_GAP_RATIO = 0.8;
+// Dòng nối tiếp (nội dung giao dịch xuống dòng) phải nằm sát dòng trước, tránh nối nhầm chân trang
+const LINE_GAP_RATIO = 2.2;
+
+const DATE_PATTERN = /\b\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4}\b|\b\d{4}-\d{2}-\d{2}\b/;
+// Dòng tổng cộng / số dư có số tiền nhưng không phải giao dịch
+const SUMMARY_LABELS = ['tong', 'total', 'cong phat sinh', 'so du'];
+
+interface TextCell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface TextLine {
+  y: number;
+  height: number;
+  cells: TextCell[];
+}
+
+/**
+ * Bố cục bảng nhận diện được từ dòng tiêu đề, dùng lại cho các trang sau không in lại tiêu đề
+ */
+export interface TextLayerLayout {
+  headerTexts: string[];
+  columns: { x0: number; x1: number }[];
+  detection: HeaderDetection;
+}
+
+export interface TextLayerPage {
+  confidence: number; // 0..1, dưới ngưỡng thì chuyển trang cho AI
+  isScanned: boolean;
+  rowCandidates?: number; // Số dòng giao dịch nhìn thấy trên bảng (chỉ có khi nhận diện được bảng)
+  texts?: string[];       // Toàn bộ ô chữ trên trang (trừ trang scan), để đối chiếu kết quả AI đọc ảnh
+  layout: TextLayerLayout | null;
+  data: StatementData | null;
+}
+
+/**
+ * Đọc lớp văn bản của trang và dựng lại các dòng theo tọa độ y, các ô theo khoảng trống giữa các mẩu chữ
+ */
+const readLines = async (page: any): Promise<TextLine[]> => {
+  const content = await page.getTextContent();
+  const items = content.items
+    .filter((item: any) => typeof item.str === 'string' && item.str.trim() !== '')
+    .map((item: any) => {
+      const size = Math.abs(item.transform[3]) || item.height || 10;
+      return { text: item.str, x: item.transform[4], y: item.transform[5], width: item.width, size };
+    })
+    // Gốc tọa độ PDF ở góc dưới: y lớn nằm trên
+    .sort((a: any, b: any) => b.y - a.y || a.x - b.x);
+
+  const lines: { y: number; height: number; items: any[] }[] = [];
+  items.forEach((item: any) => {
+    const last = lines[lines.length - 1];
+    if (last && Math.abs(last.y - item.y) <= Math.min(last.height, item.size) * 0.5) {
+      last.items.push(item);
+      last.height = Math.max(last.height, item.size);
+    } else {
+      lines.push({ y: item.y, height: item.size, items: [item] });
+    }
+  });
+
+  return lines.map(line => {
+    const cells: TextCell[] = [];
+    line.items.sort((a, b) => a.x - b.x).forEach(item => {
+      const current = cells[cells.length - 1];
+      const gap = current ? item.x - current.x1 : Infinity;
+      if (current && gap <= item.size * CELL_GAP_RATIO) {
+        const needsSpace = gap > item.size * 0.15 && !current.text.endsWith(' ') && !item.text.startsWith(' ');
+        current.text += (needsSpace ? ' ' : '') + item.text;
+        current.x1 = Math.max(current.x1, item.x + item.width);
+      } else {
+        cells.push({ text: item.text, x0: item.x, x1: item.x + item.width });
+      }
+    });
+    cells.forEach(cell => { cell.text = cell.text.trim(); });
+    return { y: line.y, height: line.height, cells };
+  });
+};
+
+/**
+ * Gộp hai dòng tiêu đề bị xuống dòng ("Số tiền" / "Ghi nợ") thành một, các ô chồng nhau theo trục x được nối lại
+ */
+const mergeHeaderLines = (top: TextCell[], bottom: TextCell[]): TextCell[] => {
+  const merged = top.map(cell => ({ ...cell }));
+  bottom.forEach(cell => {
+    const target = merged.find(m => cell.x0 < m.x1 && cell.x1 > m.x0);
+    if (target) {
+      target.text = `${target.text} ${cell.text}`;
+      target.x0 = Math.min(target.x0, cell.x0);
+      target.x1 = Math.max(target.x1, cell.x1);
+    } else {
+      merged.push({ ...cell });
+    }
+  });
+  return merged.sort((a, b) => a.x0 - b.x0);
+};
+
+/**
+ * Gán các ô của một dòng dữ liệu vào cột tiêu đề. Mỗi cột chiếm vùng từ điểm giữa với cột bên trái tới điểm giữa với cột bên phải,
+ * ô thuộc về cột mà nó chồng lấn nhiều nhất (số tiền căn phải, nội dung căn trái nên không so theo mép).
+ */
+const alignCells = (cells: TextCell[], columns: { x0: number; x1: number }[]): string[] => {
+  const zones = columns.map((col, i) => ({
+    start: i === 0 ? -Infinity : (columns[i - 1].x1 + col.x0) / 2,
+    end: i === columns.length - 1 ? Infinity : (col.x1 + columns[i + 1].x0) / 2
+  }));
+
+  const row: string[] = columns.map(() => '');
+  cells.forEach(cell => {
+    let bestColumn = 0;
+    let bestOverlap = -Infinity;
+    zones.forEach((zone, i) => {
+      const overlap = Math.min(cell.x1, zone.end) - Math.max(cell.x0, zone.start);
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap;
+        bestColumn = i;
+      }
+    });
+    row[bestColumn] = row[bestColumn] ? `${row[bestColumn]} ${cell.text}` : cell.text;
+  });
+  return row;
+};
+
+/**
+ * Vùng bao quanh các dòng chữ của một giao dịch, quy về tỉ lệ kích thước trang (viewport lo phần xoay trang / lệch gốc tọa độ)
+ */
+const lineBox = (lines: TextLine[], viewport: any): SourceBox => {
+  const cells = lines.flatMap(line => line.cells);
+  // y là đường chân chữ: phần trên dòng cao thêm cỡ chữ, phần dưới chừa chỗ cho nét chữ thò xuống
+  const rect = viewport.convertToViewportRectangle([
+    Math.min(...cells.map(c => c.x0)),
+    Math.min(...lines.map(l => l.y - l.height * 0.3)),
+    Math.max(...cells.map(c => c.x1)),
+    Math.max(...lines.map(l => l.y + l.height))
+  ]);
+  const [left, right] = [Math.min(rect[0], rect[2]), Math.max(rect[0], rect[2])];
+  const [top, bottom] = [Math.min(rect[1], rect[3]), Math.max(rect[1], rect[3])];
+  return {
+    x: left / viewport.width,
+    y: top / viewport.height,
+    width: (right - left) / viewport.width,
+    height: (bottom - top) / viewport.height
+  };
+};
+
+/**
+ * Số tiền có 2 chữ số lẻ ("1,000,000.00", "1.234,56") giữ phần thập phân,
+ * còn lại để parser chung xử lý theo kiểu Việt Nam (bỏ hết dấu phân cách ngàn)
+ */
+const normalizeMoneyCell = (val: string): any => {
+  return /[.,]\d{2}\)?$/.test(val.trim()) ? parseDecimalAmount(val) : val;
+};
+
+/**
+ * Trích xuất giao dịch của một trang PDF từ lớp văn bản (không dùng AI).
+ * Trả về độ tin cậy để quyết định có cần gửi trang cho AI đọc ảnh hay không.
+ *
+ * @param page Trang PDF (pdf.js)
+ * @param previousLayout Bố cục bảng của trang trước, dùng khi trang này không in lại dòng tiêu đề
+ */
+export const extractTextLayerPage = async (page: any, previousLayout: TextLayerLayout | null): Promise<TextLayerPage> => {
+  const lines = await readLines(page);
+  const charCount = lines.reduce((sum, line) => sum + line.cells.reduce((s, c) => s + c.text.replace(/\s/g, '').length, 0), 0);
+  if (charCount < MIN_TEXT_CHARS) {
+    return { confidence: 0, isScanned: true, layout: previousLayout, data: null };
+  }
+
+  const rawLines = lines.map(line => line.cells.map(c => c.text));
+
+  // 1. Tìm dòng tiêu đề trên trang này (thử cả trường hợp tiêu đề xuống 2 dòng)
+  let layout = previousLayout;
+  let bodyStart = 0;
+  let headerCells: TextCell[] | null = null;
+  let detection = detectSheetHeader(rawLines, '');
+  if (detection) {
+    headerCells = lines[detection.headerRowIndex].cells;
+    bodyStart = detection.headerRowIndex + 1;
+  } else {
+    const pairs = lines.slice(0, -1).map((line, i) => mergeHeaderLines(line.cells, lines[i + 1].cells));
+    detection = detectSheetHeader(pairs.map(cells => cells.map(c => c.text)), '');
+    if (detection) {
+      headerCells = pairs[detection.headerRowIndex];
+      bodyStart = detection.headerRowIndex + 2;
+    }
+  }
+  if (detection && headerCells) {
+    // Loại tiền thường chỉ in ở phần đầu trang 1: các trang sau dùng lại loại tiền đã thấy
+    const currency = detectCurrency([...rawLines.slice(0, detection.headerRowIndex).flat(), ...headerCells.map(c => c.text)])
+      || previousLayout?.detection.currency;
+    layout = {
+      headerTexts: headerCells.map(c => c.text),
+      columns: headerCells.map(c => ({ x0: c.x0, x1: c.x1 })),
+      detection: { ...detection, currency }
+    };
+  }
+
+  if (!layout) {
+    // Không có bảng: trang bìa / điều khoản thì bỏ qua, còn có ngày tháng thì nhiều khả năng là bảng chưa nhận diện được
+    const hasDates = rawLines.some(cells => cells.some(c => DATE_PATTERN.test(c)));
+    return { confidence: hasDates ? 0 : 1, isScanned: false, texts: rawLines.flat(), layout: null, data: null };
+  }
+
+  const preHeader = headerCells ? rawLines.slice(0, detection!.headerRowIndex) : [];
+  const { colMap } = layout.detection;
+  const moneyColumns = [colMap.amount, colMap.credit, colMap.debit, colMap.balance].filter((c): c is number => c !== undefined);
+
+  // 2. Dựng các dòng dữ liệu, nối dòng xuống dòng vào giao dịch phía trên
+  const body: any[][] = [];
+  // Các dòng chữ tạo nên từng dòng dữ liệu, để ghi lại vị trí giao dịch trên trang
+  const bodyLines: TextLine[][] = [];
+  let candidates = 0;
+  let lastLine: TextLine | null = null;
+
+  lines.slice(bodyStart).forEach(line => {
+    const row = alignCells(line.cells, layout!.columns);
+    const hasDate = DATE_PATTERN.test(row[colMap.date] || '');
+    const hasMoney = moneyColumns.some(c => /\d/.test(row[c] || ''));
+    const isSummary = SUMMARY_LABELS.some(l => normalizeLabel(row.join(' ')).includes(l));
+
+    if (!hasDate && !hasMoney && body.length > 0 && lastLine && lastLine.y - line.y <= line.height * LINE_GAP_RATIO) {
+      const previous = body[body.length - 1];
+      row.forEach((text, c) => {
+        if (text) previous[c] = previous[c] ? `${previous[c]} ${text}` : text;
+      });
+      bodyLines[bodyLines.length - 1].push(line);
+      lastLine = line;
+      return;
+    }
+
+    // Dòng có ngày hoặc có số tiền lẻ loi (không ngày, không phải dòng tổng) đều phải đọc ra được giao dịch
+    if (hasDate || (hasMoney && !isSummary)) candidates++;
+    moneyColumns.forEach(c => { if (row[c]) row[c] = normalizeMoneyCell(row[c]); });
+    body.push(row);
+    bodyLines.push([line]);
+    lastLine = line;
+  });
+
+  // 3. Dùng chung logic parse của Excel/CSV với cách gán cột đã xác định
+  const mapping: HeaderDetection = { ...layout.detection, headerRowIndex: preHeader.length };
+  const parsed = parseStatementRows([...preHeader, layout.headerTexts, ...body], 'PDF', { mapping });
+  // source.row là số thứ tự trong mảng vừa truyền vào: trừ phần đầu trang và dòng tiêu đề để ra dòng dữ liệu
+  const viewport = page.getViewport({ scale: 1 });
+  const transactions: Transaction[] = parsed.transactions.map(({ source, ...tx }) => {
+    const lines = bodyLines[(source?.row ?? 0) - preHeader.length - 2];
+    return lines ? { ...tx, source: { bbox: lineBox(lines, viewport) } } : tx;
+  });
+
+  // 4. Độ tin cậy: tỉ lệ dòng đọc được, trừ đi các dòng có số dư lũy kế bị đứt
+  let confidence = candidates === 0 ? 1 : Math.min(transactions.length / candidates, 1);
+  if (transactions.length > 0) {
+    const broken = reconcileStatement({ transactions }).brokenRows.size;
+    confidence *= 1 - broken / transactions.length;
+  }
+
+  const metadata = readStatementMetadata(preHeader);
+
+  return {
+    confidence,
+    isScanned: false,
+    rowCandidates: candidates,
+    texts: rawLines.flat(),
+    layout,
+    data: {
+      bankName: layout.detection.profile?.bankName || '',
+      accountHolder: metadata.accountHolder,
+      accountNumber: metadata.accountNumber || undefined,
+      period: metadata.period,
+      openingBalance: parsed.openingBalance,
+      closingBalance: parsed.closingBalance,
+      currency: parsed.currency,
+      transactions
+    }
+  };
+};
@@ -0,0 +1,195 @@
+import { ExtractionSettingsSnapshot } from '../types';
+
+const SETTINGS_KEY = 'smart_bank_provider_settings_v1';
+// Bản ghi v1 chỉ khóa theo số trang (phát lại nhầm sang file khác) nên không đọc lại
+const RECORDING_KEY = 'smart_bank_mock_recording_v2';
+// API key chỉ giữ trong phiên (tab) hiện tại, không ghi xuống localStorage dạng chữ thường
+const API_KEY_SESSION_KEY = 'smart_bank_provider_api_key';
+// Giữ bản ghi của chừng này file gần nhất
+const MAX_RECORDED_FILES = 10;
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export type ExtractionPresetId = 'fast' | 'accurate' | 'free_tier';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  endpoint: string; // Base URL của server tương thích OpenAI (VD: http://localhost:8000/v1)
+  apiKey: string;   // Để trống: Gemini dùng API key cấu hình lúc build, server tự host có thể không cần key
+  preset?: ExtractionPresetId; // Bộ thông số đang dùng; tự chỉnh một thông số thì bỏ chọn
+  batchSize: number;    // Số trang gửi AI trong một request
+  concurrency: number;  // Số request chạy song song
+  batchDelayMs: number; // Nghỉ giữa các request của cùng một luồng (tránh rate limit)
+  renderScale: number;  // Độ phóng khi vẽ trang thành ảnh gửi AI
+  jpegQuality: number;  // Chất lượng ảnh JPEG (0..1)
+  maxRetries: number;   // Số lần thử lại khi gặp lỗi 429 / 503
+}
+
+// Các thông số chỉnh được trong bảng cấu hình (không gồm provider / địa chỉ server / key)
+export type ExtractionTuning = Pick<ProviderSettings, 'batchSize' | 'concurrency' | 'batchDelayMs' | 'renderScale' | 'jpegQuality' | 'maxRetries'>;
+
+export interface ExtractionPreset {
+  id: ExtractionPresetId;
+  label: string;
+  description: string;
+  geminiModel: string; // Chỉ đổi model khi đang dùng Gemini (server tự host có model riêng)
+  tuning: ExtractionTuning;
+}
+
+// Phản hồi thô của AI theo số trang của một file, dùng cho provider mock phát lại
+export type MockRecording = Record<string, string>;
+// Mã hash nội dung file -> bản ghi của file đó
+export type MockRecordingStore = Record<string, MockRecording>;
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'replay'
+};
+
+export const EXTRACTION_PRESETS: ExtractionPreset[] = [
+  {
+    id: 'fast',
+    label: 'Nhanh / tiết kiệm',
+    description: 'Model nhẹ, ảnh nhỏ hơn, gửi 2 trang mỗi lần. Hợp với sao kê in rõ nét.',
+    geminiModel: 'gemini-2.5-flash-lite',
+    tuning: { batchSize: 2, concurrency: 4, batchDelayMs: 0, renderScale: 2, jpegQuality: 0.8, maxRetries: 2 }
+  },
+  {
+    id: 'accurate',
+    label: 'Chính xác',
+    description: 'Model mạnh nhất, ảnh nét nhất, từng trang một. Chậm và tốn hơn.',
+    geminiModel: 'gemini-2.5-pro',
+    tuning: { batchSize: 1, concurrency: 2, batchDelayMs: 500, renderScale: 3, jpegQuality: 0.95, maxRetries: 5 }
+  },
+  {
+    id: 'free_tier',
+    label: 'Gói miễn phí (giới hạn tốc độ)',
+    description: 'Một request mỗi lần, nghỉ 6 giây giữa các trang để không vượt hạn mức request/phút.',
+    geminiModel: 'gemini-2.5-flash',
+    tuning: { batchSize: 1, concurrency: 1, batchDelayMs: 6000, renderScale: 3, jpegQuality: 0.9, maxRetries: 8 }
+  }
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  endpoint: '',
+  apiKey: '',
+  batchSize: 1,
+  concurrency: 2,
+  batchDelayMs: 500,
+  renderScale: 3,
+  jpegQuality: 0.9,
+  maxRetries: 5
+};
+
+/**
+ * Áp dụng bộ thông số có sẵn (giữ nguyên provider, địa chỉ server, key)
+ */
+export const applyExtractionPreset = (settings: ProviderSettings, presetId: ExtractionPresetId): ProviderSettings => {
+  const preset = EXTRACTION_PRESETS.find(p => p.id === presetId);
+  if (!preset) return settings;
+  return {
+    ...settings,
+    ...preset.tuning,
+    model: settings.provider === 'gemini' ? preset.geminiModel : settings.model,
+    preset: preset.id
+  };
+};
+
+/**
+ * Thông số lưu kèm sao kê: bỏ API key và địa chỉ server
+ */
+export const toSettingsSnapshot = (settings: ProviderSettings): ExtractionSettingsSnapshot => ({
+  provider: settings.provider,
+  model: settings.model,
+  preset: settings.preset,
+  batchSize: settings.batchSize,
+  concurrency: settings.concurrency,
+  batchDelayMs: settings.batchDelayMs,
+  renderScale: settings.renderScale,
+  jpegQuality: settings.jpegQuality,
+  maxRetries: settings.maxRetries
+});
+
+/**
+ * Mô tả ngắn gọn để hiển thị (VD: "gemini gemini-2.5-pro • Chính xác • 1 trang/lần, 2 luồng, nghỉ 500ms • ...")
+ */
+export const describeSettingsSnapshot = (snapshot: ExtractionSettingsSnapshot): string => {
+  const preset = EXTRACTION_PRESETS.find(p => p.id === snapshot.preset);
+  return [
+    `${snapshot.provider} ${snapshot.model}`,
+    preset ? preset.label : 'Tùy chỉnh',
+    `${snapshot.batchSize} trang/lần, ${snapshot.concurrency} luồng, nghỉ ${snapshot.batchDelayMs}ms`,
+    `ảnh x${snapshot.renderScale} JPEG ${Math.round(snapshot.jpegQuality * 100)}%`,
+    `thử lại ${snapshot.maxRetries} lần`
+  ].join(' • ');
+};
+
+export const getProviderSettings = (): ProviderSettings => {
+  try {
+    const str = localStorage.getItem(SETTINGS_KEY);
+    if (!str) return { ...DEFAULT_PROVIDER_SETTINGS, apiKey: sessionStorage.getItem(API_KEY_SESSION_KEY) || '' };
+    const { apiKey: legacyKey, ...stored } = JSON.parse(str);
+    const settings = { ...DEFAULT_PROVIDER_SETTINGS, ...stored, apiKey: sessionStorage.getItem(API_KEY_SESSION_KEY) || legacyKey || '' };
+    // Cấu hình cũ lưu key trong localStorage: chuyển sang sessionStorage và xóa khỏi localStorage
+    if (legacyKey) saveProviderSettings(settings);
+    return settings;
+  } catch (error) {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  try {
+    const { apiKey, ...rest } = settings;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(rest));
+    if (apiKey) {
+      sessionStorage.setItem(API_KEY_SESSION_KEY, apiKey);
+    } else {
+      sessionStorage.removeItem(API_KEY_SESSION_KEY);
+    }
+  } catch (error) {
+    console.error("Không thể lưu cấu hình AI", error);
+  }
+};
+
+export const getMockRecordingStore = (): MockRecordingStore => {
+  try {
+    const str = localStorage.getItem(RECORDING_KEY);
+    return str ? JSON.parse(str) : {};
+  } catch (error) {
+    return {};
+  }
+};
+
+export const saveMockRecordingStore = (store: MockRecordingStore) => {
+  try {
+    // Khóa mới ghi sau cùng: bỏ các file cũ nhất khi quá số lượng
+    const hashes = Object.keys(store);
+    const kept = hashes.slice(-MAX_RECORDED_FILES).reduce<MockRecordingStore>((acc, hash) => ({ ...acc, [hash]: store[hash] }), {});
+    localStorage.setItem(RECORDING_KEY, JSON.stringify(kept));
+  } catch (error) {
+    console.error("Không thể lưu bản ghi phản hồi AI", error);
+  }
+};
+
+/**
+ * Bản ghi phản hồi của đúng file (theo hash nội dung file)
+ */
+export const getMockRecording = (fileHash: string): MockRecording => getMockRecordingStore()[fileHash] || {};
+
+/**
+ * Ghi bản ghi của một file
+ *
+ * @param merge Giữ bản ghi các trang khác của lần chạy trước (khi chỉ chạy lại vài trang)
+ */
+export const saveMockRecording = (fileHash: string, recording: MockRecording, merge = false) => {
+  const store = getMockRecordingStore();
+  const pages = merge ? { ...store[fileHash], ...recording } : recording;
+  delete store[fileHash];
+  store[fileHash] = pages;
+  saveMockRecordingStore(store);
+};
@@ -0,0 +1,144 @@
+import { StatementData, Transaction } from '../types';
+import { normalizeCategories } from './categories';
+import { normalizeTransactionDates } from './dateUtils';
+import { parseDecimalAmount } from './amountUtils';
+import { decodeTextBytes } from './csvParser';
+
+// Các loại danh sách QIF chứa giao dịch (bỏ qua !Type:Cat, !Type:Class, !Type:Memorized...)
+const TRANSACTION_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+interface QifRecord {
+  date: string;
+  amount: string;
+  payee: string;
+  memo: string;
+  number: string;
+  category: string;
+}
+
+/**
+ * Tách ngày QIF thành [a, b, năm]. Quicken ghi năm 2 chữ số sau dấu nháy cho năm 2000+: "1/5'23", "01/05/2023", "1/ 5/23"
+ */
+const splitQifDate = (val: string): [number, number, number] | null => {
+  const match = val.replace(/\s/g, '').match(/^(\d{1,2})[\/.\-](\d{1,2})(?:[\/.\-]|')(\d{2,4})$/);
+  if (!match) return null;
+
+  let year = Number(match[3]);
+  if (match[3].length === 2) {
+    year += val.includes("'") || year < 50 ? 2000 : 1900;
+  }
+  return [Number(match[1]), Number(match[2]), year];
+};
+
+/**
+ * QIF không quy định thứ tự ngày/tháng: mặc định Tháng/Ngày (Quicken bản Mỹ),
+ * chuyển sang Ngày/Tháng nếu có ngày nào mà phần đầu lớn hơn 12.
+ */
+const isDayFirst = (dates: string[]): boolean => {
+  return dates.some(d => {
+    const parts = splitQifDate(d);
+    return parts !== null && parts[0] > 12;
+  });
+};
+
+const formatQifDate = (val: string, dayFirst: boolean): string => {
+  const parts = splitQifDate(val);
+  if (!parts) return val;
+  const [a, b, year] = parts;
+  const day = dayFirst ? a : b;
+  const month = dayFirst ? b : a;
+  return `${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year}`;
+};
+
+/**
+ * Phân tích nội dung QIF (Quicken Interchange Format)
+ */
+export const parseQif = (text: string): StatementData => {
+  const records: QifRecord[] = [];
+  let current: QifRecord | null = null;
+  let inTransactions = false;
+  let accountName = '';
+  let inAccount = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      const header = line.toLowerCase();
+      inAccount = header === '!account';
+      inTransactions = header.startsWith('!type:') && TRANSACTION_TYPES.includes(header.slice(6).trim());
+      current = null;
+      continue;
+    }
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    // Khối !Account chỉ chứa thông tin tài khoản (N = tên tài khoản)
+    if (inAccount) {
+      if (code === 'N' && !accountName) accountName = value;
+      continue;
+    }
+    if (!inTransactions) continue;
+
+    if (code === '^') {
+      if (current) records.push(current);
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      current = { date: '', amount: '', payee: '', memo: '', number: '', category: '' };
+    }
+
+    switch (code) {
+      case 'D': current.date = value; break;
+      case 'T': current.amount = value; break;
+      case 'U': if (!current.amount) current.amount = value; break;
+      case 'P': current.payee = value; break;
+      case 'M': current.memo = value; break;
+      case 'N': current.number = value; break;
+      // "[Tên TK]" là chuyển khoản nội bộ, không phải danh mục chi tiêu
+      case 'L': if (!value.startsWith('[')) current.category = value; break;
+      // Các dòng split (S, E, $) và địa chỉ (A) không cần cho bảng giao dịch
+    }
+  }
+
+  // Bản ghi cuối đôi khi không có dấu kết thúc "^"
+  if (current) records.push(current);
+
+  const validRecords = records.filter(r => r.date && r.amount);
+  if (validRecords.length === 0) {
+    throw new Error("File QIF không chứa giao dịch nào.");
+  }
+
+  const dayFirst = isDayFirst(validRecords.map(r => r.date));
+
+  const transactions: Transaction[] = validRecords.map(r => {
+    const amount = parseDecimalAmount(r.amount);
+    return {
+      date: formatQifDate(r.date, dayFirst),
+      amount: Math.abs(amount),
+      description: [r.payee, r.memo].filter(Boolean).join(' - '),
+      transaction_code: r.number,
+      partner_name: r.payee,
+      partner_account: '',
+      type: amount < 0 ? 'DEBIT' : 'CREDIT',
+      category: r.category
+    };
+  });
+
+  return {
+    bankName: 'QIF Import',
+    accountHolder: '',
+    accountNumber: accountName || undefined,
+    period: '',
+    transactions: normalizeCategories(normalizeTransactionDates(transactions))
+  };
+};
+
+export const processQifFile = async (file: File): Promise<StatementData> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return parseQif(decodeTextBytes(bytes));
+};
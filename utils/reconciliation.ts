@@ -0,0 +1,92 @@
+import { StatementData, Transaction, ReconciliationResult } from '../types';
+
+// Sai số cho phép khi so sánh số dư (tránh lỗi làm tròn số thực)
+const TOLERANCE = 0.01;
+
+const signedAmount = (tx: Transaction) => (tx.type === 'CREDIT' ? tx.amount : -tx.amount);
+
+const hasBalance = (tx: Transaction) => typeof tx.balance === 'number' && !isNaN(tx.balance);
+
+/**
+ * Kiểm tra số dư lũy kế theo thứ tự dòng cho trước.
+ * Dòng không có số dư (VD: ngân hàng chỉ in số dư cuối ngày) được cộng dồn cho tới dòng có số dư kế tiếp.
+ * Khi phát hiện đứt, lấy số dư của dòng đó làm mốc mới để một lỗi không kéo theo cả phần còn lại.
+ */
+const findBrokenRows = (ordered: Transaction[]): Transaction[] => {
+  const broken: Transaction[] = [];
+  let lastBalance: number | null = null;
+  let pending = 0;
+
+  ordered.forEach(tx => {
+    pending += signedAmount(tx);
+    if (!hasBalance(tx)) return;
+
+    if (lastBalance !== null && Math.abs(lastBalance + pending - tx.balance!) > TOLERANCE) {
+      broken.push(tx);
+    }
+    lastBalance = tx.balance!;
+    pending = 0;
+  });
+
+  return broken;
+};
+
+/**
+ * Đối chiếu sao kê: Đầu kỳ + Tiền vào - Tiền ra = Cuối kỳ, đồng thời dò các dòng có số dư lũy kế bị đứt.
+ * Một số ngân hàng liệt kê giao dịch mới nhất lên đầu, nên kiểm tra cả hai chiều và chọn chiều ít lỗi hơn.
+ */
+export const reconcileStatement = (data: StatementData): ReconciliationResult => {
+  const txs = data.transactions;
+
+  const totalCredit = txs.filter(t => t.type === 'CREDIT').reduce((sum, t) => sum + t.amount, 0);
+  const totalDebit = txs.filter(t => t.type === 'DEBIT').reduce((sum, t) => sum + t.amount, 0);
+
+  const forwardBroken = findBrokenRows(txs);
+  const reversed = [...txs].reverse();
+  const backwardBroken = findBrokenRows(reversed);
+  const isDescending = backwardBroken.length < forwardBroken.length;
+  const chronological = isDescending ? reversed : txs;
+  const brokenRows = new Set(isDescending ? backwardBroken : forwardBroken);
+
+  // Số dư đầu kỳ: ưu tiên giá trị in trên sao kê, nếu không có thì suy ra từ dòng đầu tiên có số dư
+  let openingBalance = data.openingBalance;
+  if (openingBalance === undefined) {
+    let running = 0;
+    for (const tx of chronological) {
+      running += signedAmount(tx);
+      if (hasBalance(tx)) {
+        openingBalance = tx.balance! - running;
+        break;
+      }
+    }
+  }
+
+  // Số dư cuối kỳ: ưu tiên giá trị in trên sao kê, nếu không có thì lấy số dư của dòng cuối cùng
+  let closingBalance = data.closingBalance;
+  if (closingBalance === undefined) {
+    const lastWithBalance = [...chronological].reverse().find(hasBalance);
+    if (lastWithBalance) {
+      const idx = chronological.indexOf(lastWithBalance);
+      const trailing = chronological.slice(idx + 1).reduce((sum, t) => sum + signedAmount(t), 0);
+      closingBalance = lastWithBalance.balance! + trailing;
+    }
+  }
+
+  if (openingBalance === undefined || closingBalance === undefined) {
+    return { openingBalance, closingBalance, totalCredit, totalDebit, isBalanced: null, brokenRows };
+  }
+
+  const expectedClosing = openingBalance + totalCredit - totalDebit;
+  const difference = closingBalance - expectedClosing;
+
+  return {
+    openingBalance,
+    closingBalance,
+    totalCredit,
+    totalDebit,
+    expectedClosing,
+    difference,
+    isBalanced: Math.abs(difference) <= TOLERANCE && brokenRows.size === 0,
+    brokenRows
+  };
+};
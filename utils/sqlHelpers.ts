@@ -1,4 +1,5 @@
 import { StatementData, Transaction } from '../types';
+import { normalizeTransactionDates } from './dateUtils';
 
 /**
  * Escapes single quotes for SQL (e.g., 'It's' -> 'It''s')
@@ -8,6 +9,14 @@ const sqlEscape = (str: string | null | undefined): string => {
   return `'${String(str).replace(/'/g, "''")}'`;
 };
 
+/**
+ * Formats an optional number for SQL (undefined -> NULL)
+ */
+const sqlNumber = (num: number | null | undefined): string => {
+  if (num === null || num === undefined || isNaN(num)) return 'NULL';
+  return String(num);
+};
+
 /**
  * Helper to extract SQL values from a tuple string like "('date', 100, ...)"
  */
@@ -53,7 +62,11 @@ export const generateSQL = (data: StatementData): string => {
     bank_name TEXT,
     account_holder TEXT,
     period TEXT,
-    saved_at INTEGER
+    saved_at INTEGER,
+    opening_balance REAL,
+    closing_balance REAL,
+    account_number TEXT,
+    currency TEXT
 );\n\n`;
 
   sql += `CREATE TABLE IF NOT EXISTS transactions (
@@ -67,25 +80,35 @@ export const generateSQL = (data: StatementData): string => {
     partner_account TEXT,
     type TEXT,
     category TEXT,
+    balance REAL,
+    date_iso TEXT,
+    time TEXT,
+    value_date TEXT,
+    currency TEXT,
+    partner_bank TEXT,
     FOREIGN KEY(statement_id) REFERENCES statements(id)
 );\n\n`;
 
   // 2. Insert Statement Info
-  sql += `INSERT INTO statements (id, file_name, bank_name, account_holder, period, saved_at) VALUES (
+  sql += `INSERT INTO statements (id, file_name, bank_name, account_holder, period, saved_at, opening_balance, closing_balance, account_number, currency) VALUES (
     ${sqlEscape(stmtId)},
     ${sqlEscape(data.fileName)},
     ${sqlEscape(data.bankName)},
     ${sqlEscape(data.accountHolder)},
     ${sqlEscape(data.period)},
-    ${Date.now()}
+    ${Date.now()},
+    ${sqlNumber(data.openingBalance)},
+    ${sqlNumber(data.closingBalance)},
+    ${sqlEscape(data.accountNumber)},
+    ${sqlEscape(data.currency)}
 );\n\n`;
 
   // 3. Insert Transactions
   if (data.transactions.length > 0) {
-    sql += `INSERT INTO transactions (statement_id, date, amount, description, transaction_code, partner_name, partner_account, type, category) VALUES\n`;
+    sql += `INSERT INTO transactions (statement_id, date, amount, description, transaction_code, partner_name, partner_account, type, category, balance, date_iso, time, value_date, currency, partner_bank) VALUES\n`;
     
     const values = data.transactions.map(tx => {
-      return `(${sqlEscape(stmtId)}, ${sqlEscape(tx.date)}, ${tx.amount}, ${sqlEscape(tx.description)}, ${sqlEscape(tx.transaction_code)}, ${sqlEscape(tx.partner_name)}, ${sqlEscape(tx.partner_account)}, ${sqlEscape(tx.type)}, ${sqlEscape(tx.category)})`;
+      return `(${sqlEscape(stmtId)}, ${sqlEscape(tx.date)}, ${tx.amount}, ${sqlEscape(tx.description)}, ${sqlEscape(tx.transaction_code)}, ${sqlEscape(tx.partner_name)}, ${sqlEscape(tx.partner_account)}, ${sqlEscape(tx.type)}, ${sqlEscape(tx.category)}, ${sqlNumber(tx.balance)}, ${sqlEscape(tx.date_iso)}, ${sqlEscape(tx.time)}, ${sqlEscape(tx.value_date)}, ${sqlEscape(tx.currency)}, ${sqlEscape(tx.partner_bank)})`;
     });
 
     sql += values.join(',\n') + ';\n';
@@ -160,7 +183,9 @@ export const parseSQL = (sqlContent: string): StatementData => {
                         const cols = extractValues(tupleStr);
                         
                         // Mapping columns:
-                        // statement_id(0), date(1), amount(2), desc(3), code(4), partner(5), account(6), type(7), cat(8)
+                        // statement_id(0), date(1), amount(2), desc(3), code(4), partner(5), account(6), type(7), cat(8), balance(9 - bản cũ không có)
+                        // date_iso(10), time(11), value_date(12) - bản cũ không có, chuẩn hóa lại từ date
+                        // currency(13) - bản cũ không có, coi là VND; partner_bank(14) - bản cũ không có
                         if (cols.length >= 9) {
                             transactions.push({
                                 date: String(cols[1] || ''),
@@ -170,7 +195,12 @@ export const parseSQL = (sqlContent: string): StatementData => {
                                 partner_name: String(cols[5] || ''),
                                 partner_account: String(cols[6] || ''),
                                 type: (String(cols[7]) === 'CREDIT' ? 'CREDIT' : 'DEBIT'),
-                                category: String(cols[8] || '')
+                                category: String(cols[8] || ''),
+                                balance: typeof cols[9] === 'number' ? cols[9] : undefined,
+                                time: cols[11] ? String(cols[11]) : undefined,
+                                value_date: cols[12] ? String(cols[12]) : undefined,
+                                currency: cols[13] ? String(cols[13]) : undefined,
+                                partner_bank: cols[14] ? String(cols[14]) : undefined
                             });
                         }
 
@@ -192,7 +222,11 @@ export const parseSQL = (sqlContent: string): StatementData => {
         accountHolder: String(stmtData[3] || ''),
         period: String(stmtData[4] || ''),
         savedAt: Number(stmtData[5] || Date.now()),
-        transactions: transactions
+        openingBalance: typeof stmtData[6] === 'number' ? stmtData[6] : undefined,
+        closingBalance: typeof stmtData[7] === 'number' ? stmtData[7] : undefined,
+        accountNumber: stmtData[8] ? String(stmtData[8]) : undefined,
+        currency: stmtData[9] ? String(stmtData[9]) : undefined,
+        transactions: normalizeTransactionDates(transactions)
     };
 
   } catch (error) {
@@ -0,0 +1,85 @@
+import { StatementData } from '../types';
+import { SheetSelectionRequiredError, ExcelImportOptions } from './excelParser';
+import { processExcelFile } from './excelImport';
+import { processCsvFile } from './csvParser';
+import { processOfxFile } from './ofxParser';
+import { processQifFile } from './qifParser';
+import { processMt940File } from './mt940Parser';
+import { processCamtFile } from './camtParser';
+import { parseSQL } from './sqlHelpers';
+import { ProviderSettings } from './providerSettings';
+import { AnalysisControl } from './analysisControl';
+import { analyzePdfStatement, resolvePdfPassword } from '../services/geminiService';
+
+// Sao kê định dạng chuẩn (OFX/QFX, QIF, MT940, camt.053)
+export const STRUCTURED_EXTENSIONS = ['.ofx', '.qfx', '.qif', '.sta', '.mt940', '.940', '.xml'];
+
+export const SUPPORTED_EXTENSIONS = ['.pdf', '.xlsx', '.xls', '.csv', ...STRUCTURED_EXTENSIONS, '.sql'];
+
+export const isSupportedStatementFile = (fileName: string) =>
+  SUPPORTED_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+// Helper function to read file as Base64 (for PDF)
+export const readFileAsBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const base64String = reader.result as string;
+      resolve(base64String.split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Đọc các định dạng có cấu trúc chuẩn: không cần AI
+ */
+export const processStructuredFile = (file: File): Promise<StatementData> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.qif')) return processQifFile(file);
+  if (name.endsWith('.xml')) return processCamtFile(file);
+  if (name.endsWith('.ofx') || name.endsWith('.qfx')) return processOfxFile(file);
+  return processMt940File(file);
+};
+
+/**
+ * Nhập một file trong lượt tải lên nhiều file: không có bước hỏi người dùng giữa chừng.
+ * Workbook nhiều sheet thì lấy mọi sheet nhận diện được; PDF có mật khẩu chỉ thử các mật khẩu đã nhớ trong phiên.
+ * Các trường hợp cần người dùng xử lý (gán cột thủ công, nhập mật khẩu) sẽ ném lỗi để file đó được báo lỗi trong hàng đợi.
+ */
+export const importStatementFile = async (
+  file: File,
+  onProgress: (percent: number) => void,
+  settings: ProviderSettings,
+  control?: AnalysisControl
+): Promise<StatementData> => {
+  const name = file.name.toLowerCase();
+  let result: StatementData;
+
+  if (name.endsWith('.pdf')) {
+    const content = await readFileAsBase64(file);
+    const password = await resolvePdfPassword(content);
+    result = await analyzePdfStatement(content, onProgress, settings, undefined, control, password);
+  } else if (name.endsWith('.xlsx') || name.endsWith('.xls') || name.endsWith('.csv')) {
+    const parser = name.endsWith('.csv') ? processCsvFile : processExcelFile;
+    const run = (options?: ExcelImportOptions) => parser(file, onProgress, options);
+    try {
+      result = await run();
+    } catch (e) {
+      if (!(e instanceof SheetSelectionRequiredError)) throw e;
+      result = await run({ sheetNames: e.sheets.filter(s => s.detected).map(s => s.name) });
+    }
+  } else if (STRUCTURED_EXTENSIONS.some(ext => name.endsWith(ext))) {
+    result = await processStructuredFile(file);
+  } else if (name.endsWith('.sql')) {
+    result = parseSQL(await file.text());
+  } else {
+    throw new Error("Định dạng file không hỗ trợ.");
+  }
+
+  onProgress(100);
+  // Backup SQL/Excel có tên file gốc thì giữ, còn lại dùng tên file tải lên
+  const fileName = result.fileName && result.fileName !== 'Restored_Backup.xlsx' ? result.fileName : file.name;
+  return { ...result, fileName };
+};
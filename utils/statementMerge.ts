@@ -0,0 +1,100 @@
+import { StatementData, Transaction } from '../types';
+import { getTransactionIsoDate, getTransactionSortKey } from './dateUtils';
+import { inferPeriod } from './statementMetadata';
+import { DEFAULT_CURRENCY } from './currency';
+
+/**
+ * Khóa nhận diện cùng một giao dịch xuất hiện trong hai file có kỳ sao kê chồng nhau.
+ * Có mã giao dịch thì dùng mã + ngày + số tiền; không có thì thêm nội dung để tránh gộp nhầm hai giao dịch cùng số tiền.
+ */
+const duplicateKey = (tx: Transaction): string => {
+  const day = getTransactionIsoDate(tx) || tx.date;
+  const code = (tx.transaction_code || '').trim().toUpperCase();
+  if (code) return `${code}|${day}|${tx.amount}`;
+  const description = (tx.description || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return `|${day}|${tx.amount}|${tx.type}|${description}`;
+};
+
+const firstNonEmpty = (values: (string | undefined)[]) => values.find(v => v && v.trim()) || '';
+
+/**
+ * Gộp nhiều sao kê (VD: 12 file PDF tháng + vài file Excel của cùng tài khoản) thành một:
+ * gắn tên file nguồn cho từng giao dịch, bỏ giao dịch trùng ở các kỳ chồng nhau và sắp xếp theo ngày.
+ * Báo cáo trang, thông số trích xuất và chi phí AI của từng file được giữ lại.
+ *
+ * Giao dịch trùng khóa trong CÙNG một file được giữ nguyên (có thể là hai giao dịch thật giống nhau);
+ * chỉ bỏ phần lặp lại giữa các file khác nhau.
+ */
+export const mergeStatements = (statements: StatementData[]): { data: StatementData; duplicatesRemoved: number } => {
+  // Số lần đã giữ của mỗi khóa (lấy max giữa các file)
+  const keptCount = new Map<string, number>();
+  const merged: { tx: Transaction; order: number }[] = [];
+  let duplicatesRemoved = 0;
+
+  statements.forEach(statement => {
+    const fileCount = new Map<string, number>();
+    statement.transactions.forEach(tx => {
+      const key = duplicateKey(tx);
+      const seenInFile = (fileCount.get(key) || 0) + 1;
+      fileCount.set(key, seenInFile);
+
+      if (seenInFile <= (keptCount.get(key) || 0)) {
+        duplicatesRemoved++;
+        return;
+      }
+      keptCount.set(key, seenInFile);
+      merged.push({
+        tx: {
+          ...tx,
+          currency: tx.currency || statement.currency,
+          source: { ...tx.source, file: tx.source?.file || statement.fileName }
+        },
+        order: merged.length
+      });
+    });
+  });
+
+  // Sắp xếp theo ngày, cùng ngày giữ thứ tự gốc trong file
+  merged.sort((a, b) => {
+    const da = getTransactionSortKey(a.tx);
+    const db = getTransactionSortKey(b.tx);
+    if (da !== db) return da < db ? -1 : 1;
+    return a.order - b.order;
+  });
+  const transactions = merged.map(m => m.tx);
+
+  // Số dư đầu kỳ của file có giao dịch sớm nhất, cuối kỳ của file có giao dịch muộn nhất
+  const byPeriod = statements
+    .filter(s => s.transactions.length > 0)
+    .map(s => {
+      const dates = s.transactions.map(getTransactionIsoDate).filter(Boolean).sort();
+      return { statement: s, start: dates[0] || '', end: dates[dates.length - 1] || '' };
+    });
+  const earliest = [...byPeriod].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))[0];
+  const latest = [...byPeriod].sort((a, b) => (a.end > b.end ? -1 : a.end < b.end ? 1 : 0))[0];
+
+  // Gộp tài khoản VND với tài khoản ngoại tệ: sao kê gộp không có một loại tiền chung
+  const currencies = new Set(statements.map(s => s.currency || DEFAULT_CURRENCY));
+
+  // Báo cáo trang của các file PDF, gắn tên file vì số trang của các file trùng nhau
+  const pageReports = statements.flatMap(s => (s.pageReports || []).map(r => ({ ...r, file: r.file || s.fileName })));
+
+  return {
+    data: {
+      fileName: `Gộp ${statements.length} file`,
+      bankName: firstNonEmpty(statements.map(s => s.bankName)),
+      accountHolder: firstNonEmpty(statements.map(s => s.accountHolder)),
+      accountNumber: firstNonEmpty(statements.map(s => s.accountNumber)) || undefined,
+      period: inferPeriod(transactions),
+      openingBalance: earliest?.statement.openingBalance,
+      closingBalance: latest?.statement.closingBalance,
+      currency: currencies.size === 1 ? [...currencies][0] : undefined,
+      transactions,
+      pageReports: pageReports.length > 0 ? pageReports : undefined,
+      // Các file trong một lượt tải lên dùng chung cấu hình AI
+      extractionSettings: statements.find(s => s.extractionSettings)?.extractionSettings,
+      usage: statements.some(s => s.usage) ? statements.flatMap(s => s.usage || []) : undefined
+    },
+    duplicatesRemoved
+  };
+};
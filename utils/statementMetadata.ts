@@ -0,0 +1,88 @@
+import { Transaction } from '../types';
+import { normalizeLabel } from './bankProfiles';
+import { normalizeDate, formatIsoAsDMY, getTransactionIsoDate } from './dateUtils';
+
+const HOLDER_LABELS = ['chu tai khoan', 'ten chu tai khoan', 'ten tai khoan', 'ten khach hang', 'khach hang', 'ho ten', 'account name', 'account holder', 'customer name'];
+const ACCOUNT_LABELS = ['so tai khoan', 'tai khoan so', 'so tk', 'stk', 'account number', 'account no'];
+const PERIOD_LABELS = ['tu ngay', 'ky sao ke', 'thoi gian', 'giai doan', 'statement period', 'period', 'from'];
+
+const DATE_IN_TEXT = /\d{1,4}[\/\-.]\d{1,2}[\/\-.]\d{1,4}/g;
+
+export interface StatementMetadata {
+  accountHolder: string;
+  accountNumber: string;
+  period: string; // DD/MM/YYYY - DD/MM/YYYY, rỗng nếu phần đầu sao kê không ghi
+}
+
+/**
+ * Ô Excel có thể là Date (cellDates), số hoặc chuỗi: đưa về chuỗi để so khớp nhãn
+ */
+const cellText = (cell: any): string => {
+  if (cell instanceof Date) {
+    const normalized = normalizeDate(cell);
+    return normalized ? formatIsoAsDMY(normalized.iso) : '';
+  }
+  return String(cell ?? '').trim();
+};
+
+/**
+ * Tìm giá trị sau nhãn ("Chủ tài khoản: NGUYEN VAN A") trong cùng ô hoặc ở ô có dữ liệu kế bên (ô gộp để lại ô trống ở giữa)
+ */
+const findLabeledText = (rows: string[][], labels: string[]): string => {
+  for (const cells of rows) {
+    for (let c = 0; c < cells.length; c++) {
+      if (!labels.some(l => normalizeLabel(cells[c]).startsWith(l))) continue;
+      const inline = cells[c].split(':').slice(1).join(':').trim();
+      if (inline) return inline;
+      const next = cells.slice(c + 1).find(cell => cell !== '');
+      // Ô kế bên lại là nhãn khác ("Loại tiền:") thì nhãn này không có giá trị
+      return next && !next.endsWith(':') ? next : '';
+    }
+  }
+  return '';
+};
+
+/**
+ * Kỳ sao kê: dòng có nhãn ("Từ ngày ... đến ngày ...", "Kỳ sao kê: ... - ...", "Period: ... to ...") và hai ngày
+ */
+const findPeriod = (rows: string[][]): string => {
+  for (const cells of rows) {
+    const line = cells.join(' ');
+    const label = normalizeLabel(line);
+    if (!PERIOD_LABELS.some(l => label.includes(l))) continue;
+
+    const dates = (line.match(DATE_IN_TEXT) || [])
+      .map(d => normalizeDate(d)?.iso)
+      .filter((iso): iso is string => !!iso);
+    if (dates.length >= 2) return `${formatIsoAsDMY(dates[0])} - ${formatIsoAsDMY(dates[1])}`;
+  }
+  return '';
+};
+
+/**
+ * "0011 0041 23456 - NGUYEN VAN A" -> "0011004123456"; không có dãy số thì giữ nguyên (IBAN, số TK có chữ)
+ */
+const readAccountNumber = (value: string): string => {
+  const digits = value.match(/\d[\d\s.\-]{4,}\d/);
+  return digits ? digits[0].replace(/\D/g, '') : value;
+};
+
+/**
+ * Đọc thông tin chủ tài khoản, số tài khoản và kỳ sao kê từ các dòng phía trên dòng tiêu đề bảng
+ */
+export const readStatementMetadata = (rows: any[][]): StatementMetadata => {
+  const textRows = rows.filter(Array.isArray).map(row => Array.from(row, cellText));
+  return {
+    accountHolder: findLabeledText(textRows, HOLDER_LABELS),
+    accountNumber: readAccountNumber(findLabeledText(textRows, ACCOUNT_LABELS)),
+    period: findPeriod(textRows)
+  };
+};
+
+/**
+ * Kỳ sao kê suy ra từ ngày giao dịch sớm nhất và muộn nhất (khi sao kê không ghi kỳ)
+ */
+export const inferPeriod = (transactions: Transaction[]): string => {
+  const dates = transactions.map(getTransactionIsoDate).filter(Boolean).sort();
+  return dates.length > 0 ? `${formatIsoAsDMY(dates[0])} - ${formatIsoAsDMY(dates[dates.length - 1])}` : '';
+};
@@ -47,7 +47,9 @@ export const getStoredStatementsList = (): SavedStatementSummary[] => {
       bankName: item.bankName || 'Unknown Bank',
       period: item.period || '',
       savedAt: item.savedAt || Date.now(),
-      transactionCount: item.transactions.length
+      transactionCount: item.transactions.length,
+      extractionSettings: item.extractionSettings,
+      usage: item.usage
     })).sort((a, b) => b.savedAt - a.savedAt);
   } catch (error) {
     return [];
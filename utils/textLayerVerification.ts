@@ -0,0 +1,154 @@
+import { Transaction, ConfidenceReason } from '../types';
+import { parseDecimalAmount, parseVNAmount } from './amountUtils';
+import { normalizeDate, formatIsoAsDMY } from './dateUtils';
+import { addConfidenceReasons } from './confidence';
+
+// Số tiền có phân cách ngàn ("1.234.567", "1,234.50") hoặc số liền ("86000", "12.50")
+const AMOUNT_PATTERN = /\d{1,3}(?:[.,]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?/g;
+const DATE_PATTERN = /\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4}|\d{4}-\d{2}-\d{2}/g;
+// Mã giao dịch: chuỗi chữ-số liền, đủ dài và có ít nhất một chữ số (áp dụng cho cả mã trên trang lẫn mã AI đọc).
+// Mã ngắn hơn thì dễ trùng ngẫu nhiên với chữ khác trên trang, không đối chiếu.
+const MIN_CODE_LENGTH = 6;
+const CODE_PATTERN = new RegExp(`[A-Z0-9]{${MIN_CODE_LENGTH},}`, 'g');
+const isCode = (value: string) => value.length >= MIN_CODE_LENGTH && /\d/.test(value);
+
+// Các cặp ký tự AI hay đọc nhầm trên ảnh (nét mờ, ảnh scan)
+const CONFUSABLE_PAIRS = ['06', '08', '09', '68', '69', '89', '38', '56', '17', 'O0', 'D0', 'Q0', 'I1', 'L1', 'S5', 'B8', 'Z2', 'G6'];
+const CONFUSABLE = new Set(CONFUSABLE_PAIRS.flatMap(pair => [pair, pair[1] + pair[0]]));
+// Nhầm nhiều ký tự hơn thì coi là giá trị khác hẳn, không tự sửa
+const MAX_CONFUSED_CHARS = 2;
+
+/**
+ * Các giá trị thật sự in trên trang (từ lớp văn bản), đã đưa về dạng so sánh được
+ */
+export interface TextLayerEvidence {
+  amounts: Set<string>; // Số tiền x100 (tránh sai số thập phân), dạng chuỗi chữ số
+  dates: Set<string>;   // YYYYMMDD
+  codes: Set<string>;   // Viết hoa
+  compactText: string;  // Toàn bộ chữ viết liền, viết hoa: mã bị tách ô / xuống dòng vẫn tìm được
+}
+
+const toCents = (amount: number) => String(Math.round(Math.abs(amount) * 100));
+
+const parseAmountText = (text: string): number =>
+  /[.,]\d{2}$/.test(text) ? parseDecimalAmount(text) : parseVNAmount(text);
+
+export const collectTextLayerEvidence = (texts: string[]): TextLayerEvidence => {
+  const amounts = new Set<string>();
+  const dates = new Set<string>();
+  const codes = new Set<string>();
+
+  texts.forEach(text => {
+    (text.match(AMOUNT_PATTERN) || []).forEach(match => {
+      const amount = parseAmountText(match);
+      if (amount > 0) amounts.add(toCents(amount));
+    });
+    (text.match(DATE_PATTERN) || []).forEach(match => {
+      const iso = normalizeDate(match)?.iso;
+      if (iso) dates.add(iso.replace(/-/g, ''));
+    });
+    (text.toUpperCase().match(CODE_PATTERN) || []).forEach(match => {
+      if (isCode(match)) codes.add(match);
+    });
+  });
+
+  return { amounts, dates, codes, compactText: texts.join('').replace(/\s/g, '').toUpperCase() };
+};
+
+/**
+ * Số tiền / số dư mà các dòng trên trang đã đọc khớp đúng với lớp văn bản.
+ * Đó là giá trị của dòng khác nên không được dùng để "sửa" một dòng đọc nhầm.
+ */
+export const collectClaimedAmounts = (transactions: Transaction[], evidence: TextLayerEvidence): Set<string> => {
+  const claimed = new Set<string>();
+  transactions.forEach(tx => {
+    [tx.amount, tx.balance].forEach(value => {
+      if (typeof value !== 'number' || value === 0) return;
+      const cents = toCents(value);
+      if (evidence.amounts.has(cents)) claimed.add(cents);
+    });
+  });
+  return claimed;
+};
+
+/**
+ * Số ký tự AI có thể đã đọc nhầm để ra giá trị này từ giá trị trên trang (cùng độ dài, chỉ khác ở ký tự dễ nhầm)
+ *
+ * @returns 0 nếu không thể là đọc nhầm
+ */
+const countMisreadChars = (read: string, actual: string): number => {
+  if (read.length !== actual.length) return 0;
+  let diffs = 0;
+  for (let i = 0; i < read.length; i++) {
+    if (read[i] === actual[i]) continue;
+    if (!CONFUSABLE.has(read[i] + actual[i])) return 0;
+    diffs++;
+  }
+  return diffs <= MAX_CONFUSED_CHARS ? diffs : 0;
+};
+
+/**
+ * Đối chiếu một giá trị: có trên trang thì đúng; chỉ có đúng một giá trị gần giống nhất thì sửa theo; còn lại là không khớp
+ *
+ * @param claimed Giá trị đã thuộc về dòng khác, không dùng làm giá trị sửa
+ */
+const matchAgainst = (
+  read: string,
+  values: Set<string>,
+  claimed: Set<string> = new Set()
+): { status: 'ok' | 'mismatch' } | { status: 'corrected'; value: string } => {
+  if (values.has(read)) return { status: 'ok' };
+  const candidates = Array.from(values)
+    .filter(value => !claimed.has(value))
+    .map(value => ({ value, diffs: countMisreadChars(read, value) }))
+    .filter(c => c.diffs > 0);
+  // Nhầm một ký tự dễ xảy ra hơn nhiều so với nhầm hai ký tự: chỉ xét các giá trị gần nhất
+  const closest = candidates.filter(c => c.diffs === Math.min(...candidates.map(x => x.diffs)));
+  return closest.length === 1 ? { status: 'corrected', value: closest[0].value } : { status: 'mismatch' };
+};
+
+/**
+ * Đối chiếu số tiền, ngày và mã giao dịch AI đọc từ ảnh với lớp văn bản của cùng trang.
+ * Sửa khi có đúng một giá trị gần giống, không thì hạ điểm tin cậy để đưa vào danh sách "Cần kiểm tra".
+ * Trang không in loại giá trị nào (VD: không có cột mã giao dịch) thì bỏ qua loại đó.
+ *
+ * @param claimedAmounts Kết quả collectClaimedAmounts của các dòng cùng trang
+ */
+export const verifyWithTextLayer = (tx: Transaction, evidence: TextLayerEvidence, claimedAmounts?: Set<string>): Transaction => {
+  let result = tx;
+  const reasons: ConfidenceReason[] = [];
+
+  if (tx.amount > 0 && evidence.amounts.size > 0) {
+    const check = matchAgainst(toCents(tx.amount), evidence.amounts, claimedAmounts);
+    if (check.status === 'corrected') {
+      result = { ...result, amount: Number(check.value) / 100 };
+      reasons.push('AMOUNT_CORRECTED');
+    } else if (check.status === 'mismatch') {
+      reasons.push('AMOUNT_MISMATCH');
+    }
+  }
+
+  if (tx.date_iso && evidence.dates.size > 0) {
+    const check = matchAgainst(tx.date_iso.replace(/-/g, ''), evidence.dates);
+    if (check.status === 'corrected') {
+      const iso = `${check.value.slice(0, 4)}-${check.value.slice(4, 6)}-${check.value.slice(6)}`;
+      result = { ...result, date: formatIsoAsDMY(iso), date_iso: iso };
+      reasons.push('DATE_CORRECTED');
+    } else if (check.status === 'mismatch') {
+      reasons.push('DATE_MISMATCH');
+    }
+  }
+
+  const code = (tx.transaction_code || '').replace(/\s/g, '').toUpperCase();
+  if (isCode(code) && evidence.codes.size > 0 && !evidence.compactText.includes(code)) {
+    const check = matchAgainst(code, evidence.codes);
+    if (check.status === 'corrected') {
+      result = { ...result, transaction_code: check.value };
+      reasons.push('CODE_CORRECTED');
+    } else {
+      reasons.push('CODE_MISMATCH');
+    }
+  }
+
+  return reasons.length > 0 ? addConfidenceReasons(result, reasons) : result;
+};
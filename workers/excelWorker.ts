@@ -0,0 +1,43 @@
+import { StatementData } from '../types';
+import { parseExcelWorkbook, ExcelImportOptions, HeaderNotFoundError, SheetSelectionRequiredError, SheetSummary } from '../utils/excelParser';
+
+export interface ExcelWorkerRequest {
+  data: ArrayBuffer;
+  options: ExcelImportOptions;
+}
+
+// Lỗi cần người dùng xử lý tiếp (gán cột, chọn sheet) phải mang theo dữ liệu: Error không gửi nguyên qua postMessage được
+export interface ExcelWorkerError {
+  name: string;
+  message: string;
+  preview?: any[][];
+  sheetName?: string;
+  sheets?: SheetSummary[];
+}
+
+export type ExcelWorkerResponse =
+  | { type: 'progress'; percent: number; message?: string }
+  | { type: 'result'; data: StatementData }
+  | { type: 'error'; error: ExcelWorkerError };
+
+const post = (message: ExcelWorkerResponse) => self.postMessage(message);
+
+const serializeError = (error: any): ExcelWorkerError => {
+  if (error instanceof HeaderNotFoundError) {
+    return { name: error.name, message: error.message, preview: error.preview, sheetName: error.sheetName };
+  }
+  if (error instanceof SheetSelectionRequiredError) {
+    return { name: error.name, message: error.message, sheets: error.sheets };
+  }
+  return { name: error?.name || 'Error', message: error?.message || String(error) };
+};
+
+self.onmessage = (event: MessageEvent<ExcelWorkerRequest>) => {
+  const { data, options } = event.data;
+  try {
+    const result = parseExcelWorkbook(new Uint8Array(data), (percent, message) => post({ type: 'progress', percent, message }), options);
+    post({ type: 'result', data: result });
+  } catch (error) {
+    post({ type: 'error', error: serializeError(error) });
+  }
+};
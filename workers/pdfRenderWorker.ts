@@ -0,0 +1,114 @@
+import * as pdfjsLib from 'pdfjs-dist';
+
+// Xử lý sự khác biệt giữa các bản build của PDF.js trên CDN (ESM vs CommonJS wrapper)
+const pdfJs = (pdfjsLib as any).default || pdfjsLib;
+
+export type PdfRenderRequest =
+  | { type: 'open'; data: ArrayBuffer; password?: string; workerSrc: string }
+  | { type: 'render'; id: number; page: number; scale: number; quality: number }
+  | { type: 'cancel'; id: number };
+
+export type PdfRenderResponse =
+  | { type: 'rendered'; id: number; image: string } // JPEG base64 (không có tiền tố data URL)
+  | { type: 'error'; id: number; name: string; message: string };
+
+// Ngoài DOM không có document.createElement: canvas tạm của pdf.js (pattern, mask...) cũng phải là OffscreenCanvas
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: any, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: any) {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// Bộ lọc SVG (transfer function, chế độ tương phản cao) cần DOM: bỏ qua, chỉ ảnh hưởng rất ít PDF
+const noFilterFactory = {
+  addFilter: () => 'none',
+  addHCMFilter: () => 'none',
+  addHighlightHCMFilter: () => 'none',
+  destroy: () => {}
+};
+
+let documentPromise: Promise<any> | null = null;
+// Vẽ lần lượt từng trang: mỗi lúc chỉ giữ một canvas, bộ nhớ không tăng theo số trang
+let queue: Promise<void> = Promise.resolve();
+const cancelled = new Set<number>();
+const renderTasks = new Map<number, any>();
+
+const post = (message: PdfRenderResponse) => self.postMessage(message);
+
+const toBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chia nhỏ để không vượt giới hạn số tham số của String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const renderPage = async (id: number, pageNum: number, scale: number, quality: number) => {
+  if (cancelled.delete(id)) return;
+  let page: any = null;
+  const canvas = new OffscreenCanvas(1, 1);
+  try {
+    if (!documentPromise) throw new Error("Chưa mở file PDF.");
+    page = await (await documentPromise).getPage(pageNum);
+    const viewport = page.getViewport({ scale });
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas context error");
+
+    const renderTask = page.render({ canvasContext: context, viewport });
+    renderTasks.set(id, renderTask);
+    await renderTask.promise;
+
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+    post({ type: 'rendered', id, image: await toBase64(blob) });
+  } catch (err: any) {
+    post({ type: 'error', id, name: err?.name || 'Error', message: err?.message || String(err) });
+  } finally {
+    renderTasks.delete(id);
+    cancelled.delete(id);
+    // Dọn dẹp memory: ảnh canvas và dữ liệu đã giải mã của trang (font, ảnh nhúng)
+    canvas.width = 0;
+    canvas.height = 0;
+    page?.cleanup();
+  }
+};
+
+self.onmessage = (event: MessageEvent<PdfRenderRequest>) => {
+  const message = event.data;
+  if (message.type === 'open') {
+    pdfJs.GlobalWorkerOptions.workerSrc = message.workerSrc;
+    documentPromise = pdfJs.getDocument({
+      data: new Uint8Array(message.data),
+      password: message.password,
+      canvasFactory: new OffscreenCanvasFactory(),
+      filterFactory: noFilterFactory,
+      // Không có document.fonts: vẽ chữ bằng đường path
+      disableFontFace: true,
+      isOffscreenCanvasSupported: true
+    }).promise;
+    // Lỗi mở file được báo qua từng yêu cầu vẽ
+    documentPromise.catch(() => {});
+  } else if (message.type === 'render') {
+    queue = queue.then(() => renderPage(message.id, message.page, message.scale, message.quality));
+  } else if (message.type === 'cancel') {
+    const task = renderTasks.get(message.id);
+    if (task) task.cancel();
+    else cancelled.add(message.id);
+  }
+};